@@ -1,79 +1,560 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { AUDIO_URLS } from './constants';
-import { FlashcardItem } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { AppSettings, CardQuery, CropRect, Deck, DeckOfflineStatus, FlashcardItem, ImportedDeck, ReviewGrade, TtsVoiceSettings } from './types';
+import AudioDeckBuilder from './components/AudioDeckBuilder';
 import Card from './components/Card';
-import { generateImageFromPrompt } from './services/geminiService';
+import CardEditor, { CardEditorValues } from './components/CardEditor';
+import CardGrid from './components/CardGrid';
+import CardQueryToolbar from './components/CardQueryToolbar';
+import DeckLibrary from './components/DeckLibrary';
+import GenerationProgressBar from './components/GenerationProgressBar';
+import ImageCropper from './components/ImageCropper';
+import PresentationView from './components/PresentationView';
+import PrintView from './components/PrintView';
+import QuizSession from './components/QuizSession';
+import SettingsPanel from './components/SettingsPanel';
+import ShareDialog from './components/ShareDialog';
+import StatsDashboard from './components/StatsDashboard';
+import StudySession from './components/StudySession';
+import { applyCardQuery, readCardQuery, writeCardQuery } from './services/cardQueryService';
+import { addImageVariant, addRecording, buildDefaultDeck, createCard, createDeck, duplicateDeck, moveCard, slugify } from './services/deckService';
+import { DECK_FORMATS, IMPORT_ACCEPT, deckNameFromFilename, findDeckFormat, getDeckFormat } from './services/deckFormatRegistry';
+import { countInvalidCards, formatValidationIssues } from './services/deckSchema';
+import { EMPTY_HISTORY, EditHistory, recordEdit, restoreCards } from './services/editHistory';
+import { CancelledError, DeckValidationError } from './services/errors';
+import { createGenerationQueue } from './services/generationQueue';
+import { CARD_ASPECT_RATIO, createThumbnail, processImageBlob, processImageUrl } from './services/imageProcessingService';
+import { createImageProvider } from './services/imageProviderService';
+import { DEFAULT_LANGUAGE, normalizationFor, resolveCardVoice } from './services/languageService';
+import { cacheDeckMedia, getDeckOfflineStatus, pruneMediaCache } from './services/offlineService';
+import { buildDueQueue, reviewCard } from './services/schedulerService';
+import { loadSharedDeck, readShareLink, shareLinkKey } from './services/shareService';
+import { buildImageRequest, resolveStylePreset } from './services/promptService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { createAttempt } from './services/statsService';
+import { blobToObjectUrl, loadActiveDeckId, loadDecks, saveActiveDeckId, saveDecks } from './services/storageService';
+import { createTtsProvider } from './services/ttsProviderService';
 
 const App: React.FC = () => {
-  const [flashcards, setFlashcards] = useState<FlashcardItem[]>([]);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(null);
+  const [isLibraryLoaded, setIsLibraryLoaded] = useState(false);
+  const [view, setView] = useState<'deck' | 'library' | 'study' | 'quiz' | 'stats' | 'print' | 'present'>('deck');
   const [error, setError] = useState<string | null>(null);
   const [importUrl, setImportUrl] = useState('');
+  const [exportFormatId, setExportFormatId] = useState(DECK_FORMATS[0].id);
   const [isImportingUrl, setIsImportingUrl] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isTextHidden, setIsTextHidden] = useState(false);
+  // A share link in the URL opens its deck in the read-only student view.
+  const [shareLink] = useState(() => readShareLink(window.location.hash));
+  const [isStudentMode, setIsStudentMode] = useState(shareLink !== null);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isTextHidden, setIsTextHidden] = useState(shareLink?.hideText ?? false);
   const [zoomedCardId, setZoomedCardId] = useState<string | null>(null);
+  const [presentFromCardId, setPresentFromCardId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
+  const imageProvider = useMemo(() => createImageProvider(settings), [settings]);
+  const ttsProvider = useMemo(() => createTtsProvider(settings), [settings]);
+  const [audioLoadingIds, setAudioLoadingIds] = useState<Set<string>>(() => new Set());
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [selectedCardIds, setSelectedCardIds] = useState<Set<string>>(() => new Set());
+  // 'new' opens the editor for a card that doesn't exist yet.
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [imageToCrop, setImageToCrop] = useState<{ cardId: string; image: Blob } | null>(null);
+  const [isSavingImage, setIsSavingImage] = useState(false);
+  // Thumbnails made this session by image URL; null while one is being made
+  // or when the image can't have one. Lets a re-chosen variant get its thumbnail back.
+  const thumbnailsRef = useRef(new Map<string, string | null>());
+  const [cardQuery, setCardQuery] = useState<CardQuery>(() => readCardQuery(new URLSearchParams(window.location.search)));
+  const [generationQueue] = useState(() => createGenerationQueue({
+    concurrency: settings.generationConcurrency,
+    maxRetries: settings.generationMaxRetries,
+    baseDelayMs: 1000,
+  }));
+  const [generationProgress, setGenerationProgress] = useState(generationQueue.getProgress);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [offlineStatus, setOfflineStatus] = useState<Record<string, DeckOfflineStatus>>({});
+  const [cachingDeckIds, setCachingDeckIds] = useState<Set<string>>(() => new Set());
+  const activeDeck = decks.find(deck => deck.id === activeDeckId) ?? null;
+  const flashcards = activeDeck?.cards ?? [];
+  const dueCount = useMemo(() => buildDueQueue(flashcards).length, [flashcards]);
+  const visibleCards = useMemo(() => applyCardQuery(flashcards, cardQuery), [flashcards, cardQuery]);
+  const deckTags = useMemo(() => [...new Set(flashcards.flatMap(card => card.tags ?? []))].sort(), [flashcards]);
+
+  useEffect(() => {
+    loadDecks()
+      .then(savedDecks => {
+        const library = savedDecks.length > 0 ? savedDecks : [buildDefaultDeck()];
+        // A deck named in the URL wins over the one that was open last.
+        const candidateIds = [new URLSearchParams(window.location.search).get('deck'), loadActiveDeckId()];
+        setDecks(library);
+        setActiveDeckId(candidateIds.find(id => library.some(deck => deck.id === id)) ?? library[0].id);
+      })
+      .catch(err => {
+        console.error('Failed to load saved decks:', err);
+        setError('Could not load your saved decks. Starting from the default deck.');
+        const defaultDeck = buildDefaultDeck();
+        setDecks([defaultDeck]);
+        setActiveDeckId(defaultDeck.id);
+      })
+      .finally(() => setIsLibraryLoaded(true));
+  }, []);
+
+  // Autosave every change once the saved library has been restored, so the
+  // initial empty state never overwrites what's on disk.
   useEffect(() => {
-    const parsedFlashcards = AUDIO_URLS.map(url => {
-      const filename = url.split('/').pop() || '';
-      const text = decodeURIComponent(filename)
-        .replace(/\.mp3$/, '')
-        .replace(/%20/g, ' ')
-        .trim();
-      return {
-        id: url,
-        text: text.charAt(0).toUpperCase() + text.slice(1),
-        audioUrl: url,
-        imageUrl: null,
-        isLoading: false,
-      };
+    if (!isLibraryLoaded) return;
+    saveDecks(decks).catch(err => {
+      console.error('Failed to save decks:', err);
+      setError('Failed to save your changes to local storage.');
     });
-    setFlashcards(parsedFlashcards);
+  }, [decks, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (isLibraryLoaded) saveActiveDeckId(activeDeckId);
+  }, [activeDeckId, isLibraryLoaded]);
+
+  // Opening the same link again reopens the student's copy, with its progress,
+  // instead of adding the deck a second time.
+  useEffect(() => {
+    if (!isLibraryLoaded || !shareLink) return;
+    const key = shareLinkKey(shareLink);
+    const existing = decks.find(deck => deck.sharedFrom === key);
+    if (existing) {
+      handleOpenDeck(existing.id);
+      return;
+    }
+    loadSharedDeck(shareLink)
+      .then(imported => addImportedDeck(imported, key))
+      .catch(err => {
+        console.error('Failed to open shared deck:', err);
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Could not open the shared deck. ${errorMessage}`);
+        // Nothing was opened, so fall back to the normal editor for the current deck.
+        setIsStudentMode(false);
+      });
+  }, [isLibraryLoaded, shareLink]);
+
+  useEffect(() => generationQueue.subscribe(setGenerationProgress), [generationQueue]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
   }, []);
 
-  const handleGenerateImage = useCallback(async (id: string, prompt: string) => {
-    setFlashcards(prev =>
-      prev.map(card => (card.id === id ? { ...card, isLoading: true } : card))
+  // Queued generation waits for the connection; the placeholder provider draws locally and never needs it.
+  useEffect(() => {
+    generationQueue.setOnline(isOnline || imageProvider.id === 'placeholder');
+  }, [generationQueue, isOnline, imageProvider]);
+
+  const handleCacheDeck = useCallback(async (deck: Deck) => {
+    setCachingDeckIds(prev => new Set(prev).add(deck.id));
+    try {
+      const status = await cacheDeckMedia(deck);
+      setOfflineStatus(prev => ({ ...prev, [deck.id]: status }));
+    } finally {
+      setCachingDeckIds(prev => {
+        const next = new Set(prev);
+        next.delete(deck.id);
+        return next;
+      });
+    }
+  }, []);
+
+  // Opening a deck makes it available offline while there's a connection.
+  useEffect(() => {
+    if (activeDeck && isOnline) handleCacheDeck(activeDeck);
+  }, [activeDeckId, isOnline, isLibraryLoaded, handleCacheDeck]);
+
+  useEffect(() => {
+    if (view !== 'library') return;
+    let isCancelled = false;
+    Promise.all(decks.map(async deck => [deck.id, await getDeckOfflineStatus(deck)] as const)).then(entries => {
+      if (!isCancelled) setOfflineStatus(Object.fromEntries(entries));
+    });
+    return () => { isCancelled = true; };
+  }, [view, decks]);
+
+  useEffect(() => {
+    generationQueue.configure({
+      concurrency: settings.generationConcurrency,
+      maxRetries: settings.generationMaxRetries,
+    });
+  }, [generationQueue, settings.generationConcurrency, settings.generationMaxRetries]);
+
+  const updateDeckCards = useCallback((deckId: string, update: (cards: FlashcardItem[]) => FlashcardItem[]) => {
+    setDecks(prev =>
+      prev.map(deck => (deck.id === deckId ? { ...deck, cards: update(deck.cards), updatedAt: Date.now() } : deck))
+    );
+  }, []);
+
+  // Thumbnails for images that don't have one: stored before thumbnails
+  // existed, imported, or picked again from the image history.
+  useEffect(() => {
+    if (!activeDeck) return;
+    const deckId = activeDeck.id;
+    const thumbnails = thumbnailsRef.current;
+    const missing = activeDeck.cards.filter(card => card.imageUrl && !card.thumbnailUrl && !card.isLoading);
+    const setThumbnail = (cardId: string, sourceUrl: string, thumbnailUrl: string) =>
+      updateDeckCards(deckId, cards =>
+        cards.map(c => (c.id === cardId && c.imageUrl === sourceUrl ? { ...c, thumbnailUrl } : c))
+      );
+
+    missing.forEach(card => {
+      const known = thumbnails.get(card.imageUrl as string);
+      if (known) setThumbnail(card.id, card.imageUrl as string, known);
+    });
+    const pending = missing.filter(card => !thumbnails.has(card.imageUrl as string));
+    if (pending.length === 0) return;
+    pending.forEach(card => thumbnails.set(card.imageUrl as string, null));
+    (async () => {
+      // One at a time so a large deck doesn't stall the page.
+      for (const card of pending) {
+        const sourceUrl = card.imageUrl as string;
+        const thumbnailUrl = await createThumbnail(sourceUrl, settings.imageProcessing);
+        thumbnails.set(sourceUrl, thumbnailUrl);
+        if (thumbnailUrl) setThumbnail(card.id, sourceUrl, thumbnailUrl);
+      }
+    })();
+  }, [activeDeck, settings.imageProcessing, updateDeckCards]);
+
+  // User edits go through here so they can be undone; generation results,
+  // grades and practice attempts use updateDeckCards directly.
+  const editDeckCards = (update: (cards: FlashcardItem[]) => FlashcardItem[]) => {
+    if (!activeDeck) return;
+    setEditHistory(history => recordEdit(history, { deckId: activeDeck.id, cards: activeDeck.cards }));
+    updateDeckCards(activeDeck.id, update);
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const from = direction === 'undo' ? editHistory.past : editHistory.future;
+    const snapshot = from[from.length - 1];
+    if (!snapshot) return;
+    const deck = decks.find(d => d.id === snapshot.deckId);
+    const remaining = from.slice(0, -1);
+    if (!deck) {
+      // The deck was deleted; drop the entry and try the next one.
+      setEditHistory(history => ({ ...history, [direction === 'undo' ? 'past' : 'future']: remaining }));
+      return;
+    }
+    const inverse = { deckId: deck.id, cards: deck.cards };
+    setEditHistory(history => direction === 'undo'
+      ? { past: remaining, future: [...history.future, inverse] }
+      : { past: [...history.past, inverse], future: remaining });
+    updateDeckCards(deck.id, cards => restoreCards(snapshot.cards, cards));
+    setActiveDeckId(deck.id);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // Leave text fields their own undo.
+      if (isStudentMode || !(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        stepHistory('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        stepHistory('redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    setSelectedCardIds(new Set());
+  }, [activeDeckId]);
+
+  // Mirror the open deck and its search, filter and sort in the URL, so a reload
+  // or bookmark comes back to the same view. Deck ids are local to this
+  // browser's library; on another device the link only carries the filter.
+  useEffect(() => {
+    // Until the library loads, the deck in the URL hasn't been read yet.
+    if (!isLibraryLoaded) return;
+    const params = writeCardQuery(cardQuery, new URLSearchParams(window.location.search));
+    if (activeDeckId) {
+      params.set('deck', activeDeckId);
+    } else {
+      params.delete('deck');
+    }
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(null, '', url);
+    }
+  }, [cardQuery, activeDeckId, isLibraryLoaded]);
+
+  const handleSaveCard = ({ text, audioUrl, tags, language }: CardEditorValues) => {
+    if (editingCardId === 'new') {
+      editDeckCards(cards => [...cards, { ...createCard(text, audioUrl, tags), language: language || undefined }]);
+    } else {
+      editDeckCards(cards =>
+        cards.map(card => (card.id === editingCardId
+          ? { ...card, text, audioUrl, tags: tags.length > 0 ? tags : undefined, language: language || undefined }
+          : card))
+      );
+    }
+    setEditingCardId(null);
+  };
+
+  const handleDeleteCards = (ids: string[]) => {
+    const doomed = new Set(ids);
+    editDeckCards(cards => cards.filter(card => !doomed.has(card.id)));
+    setSelectedCardIds(prev => new Set([...prev].filter(id => !doomed.has(id))));
+    if (zoomedCardId && doomed.has(zoomedCardId)) setZoomedCardId(null);
+  };
+
+  const handleToggleSelect = (id: string) => {
+    setSelectedCardIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleReorderCards = (fromId: string, toId: string) => {
+    editDeckCards(cards => moveCard(cards, fromId, toId));
+  };
+
+  const handleGenerateImage = useCallback(async (id: string, prompt: string, targetDeckId = activeDeckId) => {
+    const deck = decks.find(d => d.id === targetDeckId);
+    const target = deck?.cards.find(card => card.id === id);
+    if (!deck || !target) return;
+    // Pin the deck so switching decks mid-generation still updates the right card.
+    const deckId = deck.id;
+    const jobId = `${deckId}:${id}`;
+    if (generationQueue.has(jobId)) return;
+
+    updateDeckCards(deckId, cards =>
+      cards.map(card => (card.id === id ? { ...card, isLoading: true, generationError: null, queuedPrompt: prompt } : card))
     );
-    setError(null);
 
     try {
-      const fullPrompt = `A simple, cute, cartoon-style illustration for a children's flashcard, with a clean, solid light-colored background. The image should clearly and simply depict: ${prompt}`;
-      const imageUrl = await generateImageFromPrompt(fullPrompt);
-      setFlashcards(prev =>
-        prev.map(card =>
-          card.id === id ? { ...card, imageUrl, isLoading: false } : card
+      const preset = resolveStylePreset(settings.stylePresets, target, deck);
+      const request = buildImageRequest(preset, target, prompt);
+      const generated = await generationQueue.enqueue(jobId, signal =>
+        imageProvider.generateImage({ ...request, signal })
+      );
+      const { imageUrl, thumbnailUrl } = await processImageUrl(generated, settings.imageProcessing);
+      if (thumbnailUrl) thumbnailsRef.current.set(imageUrl, thumbnailUrl);
+      updateDeckCards(deckId, cards =>
+        cards.map(card =>
+          card.id === id ? { ...addImageVariant(card, imageUrl, prompt), thumbnailUrl, isLoading: false, queuedPrompt: undefined } : card
         )
       );
     } catch (err) {
+      if (err instanceof CancelledError) {
+        updateDeckCards(deckId, cards =>
+          cards.map(card => (card.id === id ? { ...card, isLoading: false, queuedPrompt: undefined } : card))
+        );
+        return;
+      }
       console.error('Failed to generate image:', err);
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate image for "${prompt}". ${errorMessage}`);
-      setFlashcards(prev =>
-        prev.map(card => (card.id === id ? { ...card, isLoading: false } : card))
+      updateDeckCards(deckId, cards =>
+        cards.map(card => (card.id === id ? { ...card, isLoading: false, generationError: errorMessage, queuedPrompt: undefined } : card))
       );
     }
-  }, []);
+  }, [activeDeckId, decks, generationQueue, imageProvider, settings.stylePresets, settings.imageProcessing, updateDeckCards]);
+
+  // Generation that was queued when the page was closed (e.g. while offline)
+  // is queued again once the library has loaded.
+  const hasResumedQueueRef = useRef(false);
+  useEffect(() => {
+    if (!isLibraryLoaded || hasResumedQueueRef.current) return;
+    hasResumedQueueRef.current = true;
+    decks.forEach(deck => deck.cards
+      .filter(card => card.queuedPrompt !== undefined)
+      .forEach(card => handleGenerateImage(card.id, card.queuedPrompt as string, deck.id)));
+  }, [isLibraryLoaded, handleGenerateImage]);
+
+  const handleGenerateAll = () => {
+    flashcards
+      .filter(card => !card.imageUrl && !card.isLoading)
+      .forEach(card => handleGenerateImage(card.id, card.prompt || card.text));
+  };
+
+  // Resolves once the card has been read out, so presentations can wait for it.
+  const handleSpeak = async (id: string, signal?: AbortSignal) => {
+    const card = flashcards.find(c => c.id === id);
+    if (!card) return;
+    await ttsProvider.speak({ text: card.text, voice: resolveCardVoice(card, activeDeck), signal }).catch(err => {
+      console.error('Failed to speak card:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the card aloud.');
+    });
+  };
+
+  const handleGenerateAudio = async (id: string) => {
+    const card = flashcards.find(c => c.id === id);
+    if (!activeDeck || !card || !ttsProvider.synthesize || audioLoadingIds.has(id)) return;
+    const deckId = activeDeck.id;
+    setAudioLoadingIds(prev => new Set(prev).add(id));
+    try {
+      const blob = await ttsProvider.synthesize({ text: card.text, voice: resolveCardVoice(card, activeDeck) });
+      // An object URL lets storage keep the audio as a Blob, so it's saved and exported like a recording.
+      const audioUrl = blobToObjectUrl(blob);
+      updateDeckCards(deckId, cards => cards.map(c => (c.id === id ? { ...c, audioUrl } : c)));
+    } catch (err) {
+      console.error('Failed to generate audio:', err);
+      setError(err instanceof Error ? err.message : 'Could not generate audio.');
+    } finally {
+      setAudioLoadingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  const handleGenerateMissingAudio = async () => {
+    // One at a time to stay friendly to local TTS servers.
+    for (const card of flashcards.filter(c => !c.audioUrl)) {
+      await handleGenerateAudio(card.id);
+    }
+  };
+
+  const handleSaveRecording = (id: string, blob: Blob, durationMs: number) => {
+    if (!activeDeckId) return;
+    // Stored as a Blob with the deck, like generated audio.
+    const url = blobToObjectUrl(blob);
+    updateDeckCards(activeDeckId, cards => cards.map(card => (card.id === id ? addRecording(card, url, durationMs) : card)));
+  };
+
+  const handleDeleteRecording = (id: string, recordingId: string) => {
+    if (!activeDeckId) return;
+    updateDeckCards(activeDeckId, cards =>
+      cards.map(card => {
+        if (card.id !== id) return card;
+        const recordings = card.recordings?.filter(recording => recording.id !== recordingId);
+        return { ...card, recordings: recordings && recordings.length > 0 ? recordings : undefined };
+      })
+    );
+  };
+
+  const handleUseRecordingAsReference = (id: string, recordingId: string) => {
+    editDeckCards(cards =>
+      cards.map(card => {
+        const recording = card.id === id && card.recordings?.find(r => r.id === recordingId);
+        return recording ? { ...card, audioUrl: recording.url } : card;
+      })
+    );
+  };
+
+  const handleUpdateDeckVoice = (id: string, tts: TtsVoiceSettings) => {
+    setDecks(prev => prev.map(deck => (deck.id === id ? { ...deck, tts, updatedAt: Date.now() } : deck)));
+  };
+
+  const handleUpdateDeckLanguage = (id: string, language: string, ignoreDiacritics: boolean) => {
+    setDecks(prev => prev.map(deck => (deck.id === id
+      ? { ...deck, language: language || undefined, ignoreDiacritics: ignoreDiacritics || undefined, updatedAt: Date.now() }
+      : deck)));
+  };
+
+  const handleUpdatePrompt = (id: string, prompt: string) => {
+    editDeckCards(cards =>
+      cards.map(card => (card.id === id ? { ...card, prompt: prompt || undefined } : card))
+    );
+  };
+
+  const handleUpdateCardStyle = (id: string, styleId: string) => {
+    editDeckCards(cards =>
+      cards.map(card => (card.id === id ? { ...card, styleId: styleId || undefined } : card))
+    );
+  };
+
+  const handleDeckStyleChange = (styleId: string) => {
+    setDecks(prev =>
+      prev.map(deck => (deck.id === activeDeckId ? { ...deck, defaultStyleId: styleId, updatedAt: Date.now() } : deck))
+    );
+  };
 
-  const handleGenerateAll = async () => {
-     for (const card of flashcards) {
-        if (!card.imageUrl && !card.isLoading) {
-            await handleGenerateImage(card.id, card.text);
-        }
+  const handleSelectImage = (id: string, variantId: string) => {
+    editDeckCards(cards =>
+      cards.map(card => {
+        const variant = card.imageHistory?.find(v => v.id === variantId);
+        // The thumbnail is made again for the chosen variant.
+        return card.id === id && variant ? { ...card, imageUrl: variant.url, thumbnailUrl: undefined } : card;
+      })
+    );
+  };
+
+  const handleCropImage = async (crop: CropRect) => {
+    if (!imageToCrop) return;
+    setIsSavingImage(true);
+    try {
+      const { image, thumbnail } = await processImageBlob(imageToCrop.image, settings.imageProcessing, crop);
+      // Stored as Blobs with the deck, like generated images.
+      const imageUrl = blobToObjectUrl(image);
+      const thumbnailUrl = blobToObjectUrl(thumbnail);
+      thumbnailsRef.current.set(imageUrl, thumbnailUrl);
+      editDeckCards(cards =>
+        cards.map(card => (card.id === imageToCrop.cardId
+          ? { ...addImageVariant(card, imageUrl, 'Uploaded image'), thumbnailUrl, generationError: null }
+          : card))
+      );
+      setImageToCrop(null);
+    } catch (err) {
+      console.error('Failed to process image:', err);
+      setError(err instanceof Error ? err.message : 'Could not use that image.');
+    } finally {
+      setIsSavingImage(false);
     }
   };
-  
-  const handleExport = () => {
-    if (flashcards.length === 0) {
+
+  const handleGradeCard = (id: string, grade: ReviewGrade) => {
+    if (!activeDeckId) return;
+    updateDeckCards(activeDeckId, cards =>
+      cards.map(card => (card.id === id ? { ...card, schedule: reviewCard(card.schedule, grade) } : card))
+    );
+  };
+
+  const handlePracticeAttempt = (id: string, transcript: string, score: number) => {
+    if (!activeDeckId) return;
+    updateDeckCards(activeDeckId, cards =>
+      cards.map(card =>
+        card.id === id
+          ? { ...card, practiceAttempts: [...(card.practiceAttempts ?? []), createAttempt(id, transcript, score)] }
+          : card
+      )
+    );
+  };
+
+  const handleSettingsChange = (newSettings: AppSettings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings);
+  };
+
+  const handleExport = async () => {
+    if (!activeDeck || flashcards.length === 0) {
         setError("There are no flashcards to export.");
         return;
     }
-    const jsonString = JSON.stringify(flashcards, null, 2);
-    const blob = new Blob([jsonString], { type: "application/json" });
+    const format = getDeckFormat(exportFormatId);
+    if (!format?.exportDeck) {
+        setError("That format can't be exported.");
+        return;
+    }
+    let blob: Blob;
+    try {
+        blob = await format.exportDeck(activeDeck);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to export deck. ${errorMessage}`);
+        return;
+    }
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = "flashcards-deck.json";
+    link.download = `${slugify(activeDeck.name)}${format.extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -84,49 +565,45 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
-  const processAndSetImportedData = (data: any[]) => {
-    if (!Array.isArray(data) || data.some(item => typeof item.id === 'undefined' || typeof item.text === 'undefined')) {
-      throw new Error("Invalid JSON structure. Expected an array of flashcard items.");
+  const addImportedDeck = ({ name, description, language, ignoreDiacritics, tts, defaultStyleId, cards, issues = [] }: ImportedDeck, sharedFrom?: string) => {
+    if (issues.length > 0) {
+      const invalid = countInvalidCards(issues);
+      const details = formatValidationIssues(issues);
+      if (cards.length === 0) {
+        throw new DeckValidationError(`All ${invalid} cards are invalid. ${details}`, issues);
+      }
+      const skip = window.confirm(
+        `${invalid} of ${invalid + cards.length} cards are invalid:\n\n${details}\n\nImport the ${cards.length} valid cards and skip the rest?`
+      );
+      if (!skip) {
+        throw new DeckValidationError(`${invalid} invalid cards. ${details}`, issues);
+      }
     }
-
-    const validatedData = data.map(item => ({
-      id: item.id,
-      text: item.text,
-      audioUrl: item.audioUrl,
-      imageUrl: item.imageUrl || null,
-      isLoading: false, // Always reset loading state on import
-    }));
-    
-    setFlashcards(validatedData);
+    // Imports always land in a new deck rather than overwriting the open one.
+    const deck = { ...createDeck(name, description, cards), language, ignoreDiacritics, tts, defaultStyleId, sharedFrom };
+    setDecks(prev => [...prev, deck]);
+    setActiveDeckId(deck.id);
+    setView('deck');
     setError(null);
   };
 
-  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) {
       return;
     }
+    event.target.value = '';
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result;
-        if (typeof text !== 'string') {
-          throw new Error("File could not be read properly.");
-        }
-        const importedData = JSON.parse(text);
-        processAndSetImportedData(importedData);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to import file. Please ensure it's a valid JSON. Error: ${errorMessage}`);
+    const format = findDeckFormat(file.name);
+    try {
+      if (!format.importDeck) {
+        throw new Error(`${format.label} files can't be imported.`);
       }
-    };
-    reader.onerror = () => {
-      setError("Failed to read the selected file.");
-    };
-    reader.readAsText(file);
-    
-    event.target.value = '';
+      addImportedDeck(await format.importDeck(file, deckNameFromFilename(file.name)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to import file. Please ensure it's a valid ${format.label} file. Error: ${errorMessage}`);
+    }
   };
 
   const handleImportFromUrl = async () => {
@@ -136,22 +613,65 @@ const App: React.FC = () => {
     }
     setIsImportingUrl(true);
     setError(null);
+    const format = findDeckFormat(importUrl);
     try {
+      if (!format.importDeck) {
+        throw new Error(`${format.label} files can't be imported.`);
+      }
       const response = await fetch(importUrl);
       if (!response.ok) {
         throw new Error(`Failed to fetch from URL: ${response.statusText}`);
       }
-      const importedData = await response.json();
-      processAndSetImportedData(importedData);
+      const urlName = deckNameFromFilename(decodeURIComponent(new URL(importUrl).pathname.split('/').pop() || ''));
+      addImportedDeck(await format.importDeck(await response.blob(), urlName || 'Imported deck'));
       setImportUrl('');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to import from URL. Please ensure it's a valid JSON link. Error: ${errorMessage}`);
+      setError(`Failed to import from URL. Please ensure it's a valid ${format.label} link. Error: ${errorMessage}`);
     } finally {
       setIsImportingUrl(false);
     }
   };
 
+  const handleOpenDeck = (id: string) => {
+    setActiveDeckId(id);
+    setZoomedCardId(null);
+    setView('deck');
+  };
+
+  const handleCreateDeck = (name: string, description: string) => {
+    const deck = createDeck(name, description);
+    setDecks(prev => [...prev, deck]);
+    handleOpenDeck(deck.id);
+  };
+
+  const handleRenameDeck = (id: string, name: string, description: string) => {
+    setDecks(prev =>
+      prev.map(deck => (deck.id === id ? { ...deck, name, description, updatedAt: Date.now() } : deck))
+    );
+  };
+
+  const handleDuplicateDeck = (id: string) => {
+    const source = decks.find(deck => deck.id === id);
+    if (!source) return;
+    setDecks(prev => [...prev, duplicateDeck(source)]);
+  };
+
+  const handleDeleteDeck = (id: string) => {
+    const remaining = decks.filter(deck => deck.id !== id);
+    setDecks(remaining);
+    pruneMediaCache(remaining).catch(err => console.warn('Could not clean up the offline media cache:', err));
+    if (id === activeDeckId) {
+      setActiveDeckId(remaining[0]?.id ?? null);
+    }
+  };
+
+  const handleExitStudentMode = () => {
+    setIsStudentMode(false);
+    // Drop the link so a reload doesn't bring the student view back.
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  };
+
   const handleCardClick = (id: string) => {
     setZoomedCardId(id);
   };
@@ -160,8 +680,32 @@ const App: React.FC = () => {
       setZoomedCardId(null);
   };
 
+  const handlePresent = (fromCardId: string | null = null) => {
+    setPresentFromCardId(fromCardId);
+    setZoomedCardId(null);
+    setView('present');
+  };
+
   const zoomedCard = zoomedCardId ? flashcards.find(c => c.id === zoomedCardId) : null;
 
+  if (view === 'print' && activeDeck) {
+    // Prints the cards the grid currently shows, so a search or filter narrows the printout.
+    return <PrintView cards={visibleCards} deckName={activeDeck.name} onExit={() => setView('deck')} />;
+  }
+
+  if (view === 'present' && activeDeck) {
+    // Like printing, presents the cards the grid currently shows.
+    return (
+      <PresentationView
+        cards={visibleCards}
+        startCardId={presentFromCardId}
+        isTextHidden={isTextHidden}
+        onSpeak={handleSpeak}
+        onExit={() => setView('deck')}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
@@ -172,52 +716,176 @@ const App: React.FC = () => {
           <p className="mt-2 text-lg text-gray-400">
             Generate images, practice your pronunciation, and manage your flashcard decks.
           </p>
-          <div className="mt-6 flex justify-center items-center gap-4 flex-wrap">
-             <button
-                onClick={handleGenerateAll}
-                className="px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105"
+          {!isOnline && (
+            <p className="mt-2 text-yellow-400" role="status">
+              You're offline. Decks made available offline still work, and image generation resumes when you reconnect.
+            </p>
+          )}
+          <div className="mt-6 flex justify-center items-center gap-2 flex-wrap">
+            {isStudentMode ? (
+              <span className="text-xl font-semibold text-gray-200 mr-2">{activeDeck?.name}</span>
+            ) : (
+              <>
+                <label htmlFor="deck-switcher" className="font-semibold text-gray-300">Deck</label>
+                <select
+                    id="deck-switcher"
+                    value={activeDeckId ?? ''}
+                    onChange={(e) => handleOpenDeck(e.target.value)}
+                    disabled={decks.length === 0}
+                    className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500"
                 >
-                Generate All Missing
-            </button>
-             <button
-                onClick={handleExport}
-                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105"
+                    {decks.map(deck => (
+                      <option key={deck.id} value={deck.id}>{deck.name} ({deck.cards.length})</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setView(view === 'library' ? 'deck' : 'library')}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold"
                 >
-                Export to JSON
-            </button>
-            <button
-                onClick={handleImportClick}
-                className="px-6 py-2 bg-yellow-500 hover:bg-yellow-600 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105"
+                    {view === 'library' ? 'Back to Deck' : 'Library'}
+                </button>
+                <label htmlFor="deck-style" className="font-semibold text-gray-300 ml-2">Style</label>
+                <select
+                    id="deck-style"
+                    value={activeDeck?.defaultStyleId ?? settings.stylePresets[0]?.id ?? ''}
+                    onChange={(e) => handleDeckStyleChange(e.target.value)}
+                    disabled={!activeDeck}
+                    className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500"
                 >
-                Import from File
+                    {settings.stylePresets.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                </select>
+              </>
+            )}
+            <button
+                onClick={() => setView('study')}
+                disabled={view === 'study' || flashcards.length === 0}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Study ({dueCount} due today)
             </button>
-            <input
-                type="file"
-                ref={fileInputRef}
-                onChange={handleImport}
-                accept=".json,application/json"
-                className="hidden"
-                aria-hidden="true"
-            />
-          </div>
-          <div className="mt-4 flex justify-center items-center gap-2 flex-wrap max-w-xl mx-auto">
-            <input
-                type="url"
-                value={importUrl}
-                onChange={(e) => setImportUrl(e.target.value)}
-                placeholder="Paste JSON URL to import"
-                className="flex-grow px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500 min-w-[200px]"
-                aria-label="Import from URL"
-                onKeyDown={(e) => e.key === 'Enter' && handleImportFromUrl()}
-            />
-             <button
-                onClick={handleImportFromUrl}
-                disabled={isImportingUrl || !importUrl}
-                className="px-6 py-2 bg-teal-500 hover:bg-teal-600 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+            <button
+                onClick={() => setView('quiz')}
+                disabled={view === 'quiz' || flashcards.length === 0}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
             >
-                {isImportingUrl ? 'Importing...' : 'Import from URL'}
+                Quiz
             </button>
+            {!isStudentMode && (
+              <>
+                <button
+                    onClick={() => handlePresent()}
+                    disabled={!activeDeck || visibleCards.length === 0}
+                    className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Full-screen slideshow for projecting in class"
+                >
+                    Present
+                </button>
+                <button
+                    onClick={() => setView(view === 'stats' ? 'deck' : 'stats')}
+                    disabled={!activeDeck}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {view === 'stats' ? 'Back to Deck' : 'Stats'}
+                </button>
+              </>
+            )}
           </div>
+          {!isStudentMode && (
+            <>
+              <div className="mt-6 flex justify-center items-center gap-4 flex-wrap">
+                 <button
+                    onClick={handleGenerateAll}
+                    className="px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105"
+                    >
+                    Generate All Missing
+                </button>
+                {ttsProvider.synthesize && flashcards.some(card => !card.audioUrl) && (
+                  <button
+                      onClick={handleGenerateMissingAudio}
+                      disabled={audioLoadingIds.size > 0}
+                      className="px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                      {audioLoadingIds.size > 0 ? 'Generating Audio...' : 'Generate Missing Audio'}
+                  </button>
+                )}
+                <button
+                    onClick={() => setView('print')}
+                    disabled={visibleCards.length === 0}
+                    className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-semibold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                    Print
+                </button>
+                <button
+                    onClick={() => setIsShareOpen(true)}
+                    disabled={!activeDeck || flashcards.length === 0}
+                    className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-semibold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                    Share
+                </button>
+                <div className="flex items-center">
+                  <button
+                      onClick={handleExport}
+                      className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-l-lg text-white font-semibold shadow-lg"
+                      >
+                      Export as
+                  </button>
+                  <select
+                      value={exportFormatId}
+                      onChange={(e) => setExportFormatId(e.target.value)}
+                      className="px-2 py-2 bg-blue-700 border-l border-blue-500 rounded-r-lg text-white font-semibold shadow-lg"
+                      aria-label="Export format"
+                  >
+                      {DECK_FORMATS.filter(format => format.exportDeck).map(format => (
+                        <option key={format.id} value={format.id}>{format.label}</option>
+                      ))}
+                  </select>
+                </div>
+                <button
+                    onClick={handleImportClick}
+                    className="px-6 py-2 bg-yellow-500 hover:bg-yellow-600 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105"
+                    >
+                    Import from File
+                </button>
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    onChange={handleImport}
+                    accept={IMPORT_ACCEPT}
+                    className="hidden"
+                    aria-hidden="true"
+                />
+              </div>
+              <div className="mt-4 flex justify-center items-center gap-2 flex-wrap max-w-xl mx-auto">
+                <input
+                    type="url"
+                    value={importUrl}
+                    onChange={(e) => setImportUrl(e.target.value)}
+                    placeholder="Paste deck URL to import"
+                    className="flex-grow px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500 min-w-[200px]"
+                    aria-label="Import from URL"
+                    onKeyDown={(e) => e.key === 'Enter' && handleImportFromUrl()}
+                />
+                 <button
+                    onClick={handleImportFromUrl}
+                    disabled={isImportingUrl || !importUrl}
+                    className="px-6 py-2 bg-teal-500 hover:bg-teal-600 rounded-lg text-white font-semibold shadow-lg transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isImportingUrl ? 'Importing...' : 'Import from URL'}
+                </button>
+              </div>
+              <div className="mt-4 flex justify-center items-center gap-2 text-sm text-gray-400">
+                <span>Image provider: <span className="font-semibold text-gray-200">{imageProvider.label}</span></span>
+                <button
+                    onClick={() => setIsSettingsOpen(true)}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold"
+                >
+                    Settings
+                </button>
+              </div>
+            </>
+          )}
           <div className="mt-6 flex items-center justify-center gap-3">
               <label htmlFor="hide-text-toggle" className="font-semibold text-gray-300 select-none cursor-pointer">
                   Hide Text Mode
@@ -245,6 +913,14 @@ const App: React.FC = () => {
                 }
               `}</style>
           </div>
+          {isStudentMode && (
+            <p className="mt-4 text-sm text-gray-500">
+              Student view.{' '}
+              <button onClick={handleExitStudentMode} className="underline hover:text-gray-300">
+                Exit student view
+              </button>
+            </p>
+          )}
         </header>
 
         {error && (
@@ -254,22 +930,143 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {flashcards.length === 0 ? (
+        <GenerationProgressBar
+          progress={generationProgress}
+          onPause={generationQueue.pause}
+          onResume={generationQueue.resume}
+          onCancel={generationQueue.cancel}
+        />
+
+        {view === 'library' ? (
+          <div className="space-y-6">
+            <AudioDeckBuilder onCreateDeck={(name, cards) => addImportedDeck({ name, cards })} />
+            <DeckLibrary
+              decks={decks}
+              activeDeckId={activeDeckId}
+              onOpenDeck={handleOpenDeck}
+              onCreateDeck={handleCreateDeck}
+              onRenameDeck={handleRenameDeck}
+              onUpdateDeckVoice={handleUpdateDeckVoice}
+              onUpdateDeckLanguage={handleUpdateDeckLanguage}
+              ttsProviderId={settings.ttsProvider}
+              onDuplicateDeck={handleDuplicateDeck}
+              onDeleteDeck={handleDeleteDeck}
+              offlineStatus={offlineStatus}
+              cachingDeckIds={cachingDeckIds}
+              onCacheDeck={id => { const deck = decks.find(d => d.id === id); if (deck) handleCacheDeck(deck); }}
+              isOnline={isOnline}
+            />
+          </div>
+        ) : view === 'study' ? (
+          <StudySession
+            key={activeDeckId ?? undefined}
+            cards={flashcards}
+            onGrade={handleGradeCard}
+            onExit={() => setView('deck')}
+            onSpeak={handleSpeak}
+          />
+        ) : view === 'quiz' ? (
+          <QuizSession
+            key={activeDeckId ?? undefined}
+            cards={flashcards}
+            onExit={() => setView('deck')}
+            onSpeak={handleSpeak}
+            normalizationFor={card => normalizationFor(card, activeDeck)}
+          />
+        ) : view === 'stats' ? (
+          <StatsDashboard cards={flashcards} onCardClick={handleCardClick} />
+        ) : !isLibraryLoaded ? (
+          <div className="text-center text-gray-500 mt-10">
+            <p>Loading flashcards...</p>
+          </div>
+        ) : !activeDeck ? (
           <div className="text-center text-gray-500 mt-10">
-            <p>Loading flashcards... or you can import a deck.</p>
+            <p>No deck selected. Open the library to create or choose one.</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-            {flashcards.map(card => (
-              <Card 
-                key={card.id} 
-                item={card} 
-                onGenerateImage={handleGenerateImage}
-                isTextHidden={isTextHidden}
-                onCardClick={handleCardClick}
+          <>
+            {!isStudentMode && (
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                <button
+                  onClick={() => setEditingCardId('new')}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold"
+                >
+                  Add Card
+                </button>
+                {selectedCardIds.size > 0 && (
+                  <>
+                    <button
+                      onClick={() => handleDeleteCards([...selectedCardIds])}
+                      className="px-4 py-2 bg-red-700 hover:bg-red-800 rounded-lg text-white font-semibold"
+                    >
+                      Delete {selectedCardIds.size} Selected
+                    </button>
+                    <button
+                      onClick={() => setSelectedCardIds(new Set())}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold"
+                    >
+                      Clear Selection
+                    </button>
+                  </>
+                )}
+                <div className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => stepHistory('undo')}
+                    disabled={editHistory.past.length === 0}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => stepHistory('redo')}
+                    disabled={editHistory.future.length === 0}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    Redo
+                  </button>
+                </div>
+              </div>
+            )}
+            <CardQueryToolbar
+              query={cardQuery}
+              onChange={setCardQuery}
+              visibleCount={visibleCards.length}
+              totalCount={flashcards.length}
+            />
+            {flashcards.length === 0 ? (
+              <div className="text-center text-gray-500 mt-10">
+                <p>This deck has no cards yet. Add one, import a deck or pick another one from the library.</p>
+              </div>
+            ) : visibleCards.length === 0 ? (
+              <div className="text-center text-gray-500 mt-10">
+                <p>No cards match the current search and filter.</p>
+              </div>
+            ) : (
+              <CardGrid
+                cards={visibleCards}
+                selectedIds={selectedCardIds}
+                onToggleSelect={isStudentMode ? undefined : handleToggleSelect}
+                onEdit={isStudentMode ? undefined : setEditingCardId}
+                // Reordering only makes sense while the grid shows the deck's own order.
+                onReorder={!isStudentMode && cardQuery.sort === 'deck' ? handleReorderCards : undefined}
+                renderCard={card => (
+                  <Card
+                    item={card}
+                    onGenerateImage={isStudentMode ? undefined : handleGenerateImage}
+                    isTextHidden={isTextHidden}
+                    onCardClick={handleCardClick}
+                    onPracticeAttempt={handlePracticeAttempt}
+                    onSpeak={handleSpeak}
+                    onGenerateAudio={!isStudentMode && ttsProvider.synthesize ? handleGenerateAudio : undefined}
+                    isAudioLoading={audioLoadingIds.has(card.id)}
+                    normalization={normalizationFor(card, activeDeck)}
+                  />
+                )}
               />
-            ))}
-          </div>
+            )}
+          </>
         )}
       </div>
 
@@ -285,15 +1082,87 @@ const App: React.FC = () => {
                   onClick={e => e.stopPropagation()}
                   className="w-full max-w-lg"
               >
-                  <Card
-                      item={zoomedCard}
-                      onGenerateImage={handleGenerateImage}
-                      isZoomed={true}
-                      onCloseZoom={handleCloseZoom}
-                  />
+                  {isStudentMode ? (
+                    <Card
+                        item={zoomedCard}
+                        isZoomed={true}
+                        onCloseZoom={handleCloseZoom}
+                        onPracticeAttempt={handlePracticeAttempt}
+                        onSpeak={handleSpeak}
+                        normalization={normalizationFor(zoomedCard, activeDeck)}
+                        onSaveRecording={handleSaveRecording}
+                        onDeleteRecording={handleDeleteRecording}
+                    />
+                  ) : (
+                    <Card
+                        item={zoomedCard}
+                        onGenerateImage={handleGenerateImage}
+                        isZoomed={true}
+                        onCloseZoom={handleCloseZoom}
+                        onPracticeAttempt={handlePracticeAttempt}
+                        onUpdatePrompt={handleUpdatePrompt}
+                        stylePresets={settings.stylePresets}
+                        onUpdateStyle={handleUpdateCardStyle}
+                        onSelectImage={handleSelectImage}
+                        onSpeak={handleSpeak}
+                        onGenerateAudio={ttsProvider.synthesize ? handleGenerateAudio : undefined}
+                        isAudioLoading={audioLoadingIds.has(zoomedCard.id)}
+                        onEdit={setEditingCardId}
+                        onDelete={id => handleDeleteCards([id])}
+                        normalization={normalizationFor(zoomedCard, activeDeck)}
+                        onSaveRecording={handleSaveRecording}
+                        onDeleteRecording={handleDeleteRecording}
+                        onUseRecordingAsReference={handleUseRecordingAsReference}
+                        onChooseImage={(cardId, image) => setImageToCrop({ cardId, image })}
+                    />
+                  )}
+                  {!isStudentMode && (
+                    <button
+                        onClick={() => handlePresent(zoomedCard.id)}
+                        className="mt-2 w-full px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-semibold"
+                    >
+                        Present from This Card
+                    </button>
+                  )}
               </div>
           </div>
        )}
+
+       {editingCardId && (
+          <CardEditor
+              card={editingCardId === 'new' ? null : flashcards.find(card => card.id === editingCardId) ?? null}
+              tagSuggestions={deckTags}
+              deckLanguage={activeDeck?.language || DEFAULT_LANGUAGE}
+              onSave={handleSaveCard}
+              onClose={() => setEditingCardId(null)}
+          />
+       )}
+
+       {imageToCrop && (
+          <ImageCropper
+              image={imageToCrop.image}
+              aspectRatio={CARD_ASPECT_RATIO}
+              isSaving={isSavingImage}
+              onCrop={handleCropImage}
+              onClose={() => setImageToCrop(null)}
+          />
+       )}
+
+       {isShareOpen && activeDeck && (
+          <ShareDialog
+              deck={activeDeck}
+              isTextHidden={isTextHidden}
+              onClose={() => setIsShareOpen(false)}
+          />
+       )}
+
+       {isSettingsOpen && (
+          <SettingsPanel
+              settings={settings}
+              onChange={handleSettingsChange}
+              onClose={() => setIsSettingsOpen(false)}
+          />
+       )}
     </div>
   );
 };
@@ -0,0 +1,210 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { AudioSource, FilenameTextRules, FlashcardItem } from '../types';
+import {
+  audioSourcesFromFiles,
+  cardsFromAudioSources,
+  filesFromDataTransfer,
+  folderNameOf,
+  listGitHubAudio,
+  parseGitHubLocation,
+} from '../services/audioSourceService';
+import { DEFAULT_FILENAME_TEXT_RULES, filenameToText } from '../services/filenameText';
+
+interface AudioDeckBuilderProps {
+  onCreateDeck: (name: string, cards: FlashcardItem[]) => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const PREVIEW_LIMIT = 8;
+
+const AudioDeckBuilder: React.FC<AudioDeckBuilderProps> = ({ onCreateDeck }) => {
+  const [sources, setSources] = useState<AudioSource[]>([]);
+  const [deckName, setDeckName] = useState('');
+  const [rules, setRules] = useState<FilenameTextRules>(DEFAULT_FILENAME_TEXT_RULES);
+  const [gitHubLocation, setGitHubLocation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(
+    () => sources.slice(0, PREVIEW_LIMIT).map(source => ({ filename: source.filename, text: filenameToText(source.filename, rules) })),
+    [sources, rules]
+  );
+
+  const updateRule = <K extends keyof FilenameTextRules>(key: K, value: FilenameTextRules[K]) => {
+    setRules(prev => ({ ...prev, [key]: value }));
+  };
+
+  const loadFiles = (files: File[], folderName: string) => {
+    const found = audioSourcesFromFiles(files);
+    if (found.length === 0) {
+      setError('No audio files found.');
+      return;
+    }
+    setError(null);
+    setSources(found);
+    setDeckName(folderName || deckName || 'New deck');
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []) as File[];
+    event.target.value = '';
+    loadFiles(files, folderNameOf(files));
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      const { files, folderName } = await filesFromDataTransfer(event.dataTransfer);
+      loadFiles(files, folderName);
+    } catch (err) {
+      setError(`Could not read the dropped files. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const handleLoadGitHub = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!gitHubLocation.trim()) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const location = parseGitHubLocation(gitHubLocation);
+      const found = await listGitHubAudio(location);
+      if (found.length === 0) {
+        throw new Error('No audio files in that folder.');
+      }
+      setSources(found);
+      setDeckName(location.path.split('/').pop() || location.repo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (sources.length === 0 || !deckName.trim()) return;
+    onCreateDeck(deckName.trim(), cardsFromAudioSources(sources, rules));
+    setSources([]);
+    setDeckName('');
+    setGitHubLocation('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-lg p-4 space-y-4">
+      <h2 className="text-xl font-bold">New deck from audio files</h2>
+
+      <div
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-6 text-center text-gray-400 ${isDragging ? 'border-purple-500 bg-gray-700' : 'border-gray-600'}`}
+      >
+        <p className="mb-3">Drop a folder or audio files here, or</p>
+        <div className="flex justify-center gap-2">
+          <button onClick={() => folderInputRef.current?.click()} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold">
+            Choose Folder
+          </button>
+          <button onClick={() => filesInputRef.current?.click()} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold">
+            Choose Files
+          </button>
+        </div>
+        <input ref={folderInputRef} type="file" webkitdirectory="" multiple onChange={handleFileInput} className="hidden" />
+        <input ref={filesInputRef} type="file" accept="audio/*" multiple onChange={handleFileInput} className="hidden" />
+      </div>
+
+      <form onSubmit={handleLoadGitHub} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={gitHubLocation}
+          onChange={e => setGitHubLocation(e.target.value)}
+          placeholder="GitHub folder, e.g. klamts/flashcard-library/decks/audio/flashcard_unit2"
+          className={inputClasses}
+          aria-label="GitHub folder"
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !gitHubLocation.trim()}
+          className="px-6 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Loading...' : 'Load from GitHub'}
+        </button>
+      </form>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-400">Capitalization</span>
+          <select
+            value={rules.capitalization}
+            onChange={e => updateRule('capitalization', e.target.value as FilenameTextRules['capitalization'])}
+            className={inputClasses}
+          >
+            <option value="first">First letter</option>
+            <option value="sentence">Sentence case</option>
+            <option value="title">Title Case</option>
+            <option value="lower">lowercase</option>
+            <option value="keep">As in filename</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-400">Strip prefix</span>
+          <input
+            type="text"
+            value={rules.stripPrefix}
+            onChange={e => updateRule('stripPrefix', e.target.value)}
+            placeholder="e.g. unit2_"
+            className={inputClasses}
+          />
+        </label>
+        <label className="flex items-center gap-2 sm:mt-6">
+          <input
+            type="checkbox"
+            checked={rules.stripNumbering}
+            onChange={e => updateRule('stripNumbering', e.target.checked)}
+          />
+          <span>Strip leading numbers ("01 - ")</span>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {sources.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">{sources.length} audio files found. Preview:</p>
+          <ul className="text-sm space-y-1">
+            {preview.map(entry => (
+              <li key={entry.filename} className="flex gap-2">
+                <span className="text-gray-500 truncate max-w-[50%]">{entry.filename}</span>
+                <span>→ {entry.text}</span>
+              </li>
+            ))}
+            {sources.length > PREVIEW_LIMIT && <li className="text-gray-500">…and {sources.length - PREVIEW_LIMIT} more</li>}
+          </ul>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={deckName}
+              onChange={e => setDeckName(e.target.value)}
+              placeholder="Deck name"
+              className={inputClasses}
+              aria-label="Deck name"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!deckName.trim()}
+              className="px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold shadow-lg whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Create Deck
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioDeckBuilder;
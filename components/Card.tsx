@@ -1,24 +1,50 @@
-import React, { useState, useCallback, useRef } from 'react';
-import type { FlashcardItem } from '../types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { FlashcardItem, PronunciationResult, StylePreset, TextNormalization, WordStatus } from '../types';
+import { comparePronunciation } from '../services/pronunciationService';
+import { DEFAULT_LANGUAGE } from '../services/languageService';
+import RecordingPanel from './RecordingPanel';
 import Spinner from './Spinner';
 
 // Check for browser support for the Web Speech API.
 const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
 const isSpeechRecognitionSupported = !!SpeechRecognitionAPI;
 
-// Define the shape of the comparison result object.
-type ComparisonResult = {
-  word: string;
-  isCorrect: boolean;
+const WORD_STATUS_STYLES: Record<WordStatus, { className: string; label: string }> = {
+  correct: { className: 'text-green-400', label: 'Correct' },
+  close: { className: 'text-lime-300', label: 'Close' },
+  misordered: { className: 'text-orange-400', label: 'Wrong order' },
+  substituted: { className: 'text-red-400', label: 'Heard something else' },
+  omitted: { className: 'text-red-400 line-through', label: 'Missed' },
+  inserted: { className: 'text-gray-400 italic', label: 'Extra word' },
 };
 
 interface CardProps {
   item: FlashcardItem;
-  onGenerateImage: (id: string, prompt: string) => void;
+  // Hidden when left out, as in the student view.
+  onGenerateImage?: (id: string, prompt: string) => void;
   isTextHidden?: boolean;
   onCardClick?: (id: string) => void;
   isZoomed?: boolean;
   onCloseZoom?: () => void;
+  onUpdatePrompt?: (id: string, prompt: string) => void;
+  stylePresets?: StylePreset[];
+  onUpdateStyle?: (id: string, styleId: string) => void;
+  onSelectImage?: (id: string, variantId: string) => void;
+  onPracticeAttempt?: (id: string, transcript: string, score: number) => void;
+  // Used for cards without a recording.
+  onSpeak?: (id: string) => void;
+  onGenerateAudio?: (id: string) => void;
+  isAudioLoading?: boolean;
+  onEdit?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  // The card's resolved language, used for speech recognition and scoring.
+  normalization?: TextNormalization;
+  // Record-yourself panel in the zoomed view; shown when both are given.
+  onSaveRecording?: (id: string, blob: Blob, durationMs: number) => void;
+  onDeleteRecording?: (id: string, recordingId: string) => void;
+  onUseRecordingAsReference?: (id: string, recordingId: string) => void;
+  // Sets the card's image from an uploaded or pasted file (zoomed view only).
+  onChooseImage?: (id: string, image: Blob) => void;
 }
 
 const Card: React.FC<CardProps> = ({ 
@@ -27,31 +53,67 @@ const Card: React.FC<CardProps> = ({
   isTextHidden = false,
   onCardClick,
   isZoomed = false,
-  onCloseZoom
+  onCloseZoom,
+  onUpdatePrompt,
+  stylePresets = [],
+  onUpdateStyle,
+  onSelectImage,
+  onPracticeAttempt,
+  onSpeak,
+  onGenerateAudio,
+  isAudioLoading = false,
+  onEdit,
+  onDelete,
+  normalization,
+  onSaveRecording,
+  onDeleteRecording,
+  onUseRecordingAsReference,
+  onChooseImage,
 }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [userTranscript, setUserTranscript] = useState<string | null>(null);
-  const [comparisonResult, setComparisonResult] = useState<ComparisonResult[] | null>(null);
+  const [comparisonResult, setComparisonResult] = useState<PronunciationResult | null>(null);
   const [practiceError, setPracticeError] = useState<string | null>(null);
+  const [promptDraft, setPromptDraft] = useState(item.prompt ?? '');
   
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
 
   const handleGenerateClick = () => {
-    if (!item.isLoading && !item.imageUrl) {
-      onGenerateImage(item.id, item.text);
+    if (!item.isLoading) {
+      onGenerateImage?.(item.id, item.prompt || item.text);
     }
   };
 
-  const comparePronunciation = (originalText: string, spokenText: string): ComparisonResult[] => {
-    const originalDisplayWords = originalText.split(/\s+/).filter(Boolean);
-    const originalComparisonWords = originalDisplayWords.map(w => w.toLowerCase().replace(/[^\w\s']|'/g, ''));
-    const spokenComparisonWords = spokenText.toLowerCase().replace(/[^\w\s']|'/g, '').split(/\s+/).filter(Boolean);
-    const spokenWordSet = new Set(spokenComparisonWords);
+  const handleImageFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onChooseImage?.(item.id, file);
+  };
+
+  // Pasting an image while the card is zoomed in sets it, as if uploaded.
+  useEffect(() => {
+    if (!isZoomed || !onChooseImage) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = [...(e.clipboardData?.files ?? [])].find(f => f.type.startsWith('image/'));
+      if (!file) return;
+      e.preventDefault();
+      onChooseImage(item.id, file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [isZoomed, onChooseImage, item.id]);
 
-    return originalDisplayWords.map((word, index) => ({
-      word: word,
-      isCorrect: spokenWordSet.has(originalComparisonWords[index]),
-    }));
+  // Follow outside changes to the prompt (undo, redo, imports) so blurring
+  // the field doesn't write an outdated draft back.
+  useEffect(() => {
+    setPromptDraft(item.prompt ?? '');
+  }, [item.prompt]);
+
+  const handlePromptBlur = () => {
+    if (promptDraft.trim() !== (item.prompt ?? '')) {
+      onUpdatePrompt?.(item.id, promptDraft.trim());
+    }
   };
 
   const handlePracticeClick = useCallback(() => {
@@ -70,7 +132,7 @@ const Card: React.FC<CardProps> = ({
     setComparisonResult(null);
 
     const recognition = new SpeechRecognitionAPI();
-    recognition.lang = 'en-US';
+    recognition.lang = normalization?.locale || DEFAULT_LANGUAGE;
     recognition.continuous = false;
     recognition.interimResults = false;
     recognitionRef.current = recognition;
@@ -79,8 +141,9 @@ const Card: React.FC<CardProps> = ({
     recognition.onresult = (event) => {
       const transcript = event.results[0][0].transcript;
       setUserTranscript(transcript);
-      const result = comparePronunciation(item.text, transcript);
+      const result = comparePronunciation(item.text, transcript, normalization);
       setComparisonResult(result);
+      onPracticeAttempt?.(item.id, transcript, result.score);
     };
     recognition.onerror = (event) => {
       console.error("Speech recognition error:", event.error);
@@ -98,7 +161,7 @@ const Card: React.FC<CardProps> = ({
     };
 
     recognition.start();
-  }, [isRecording, item.text]);
+  }, [isRecording, item.id, item.text, onPracticeAttempt, normalization?.locale, normalization?.ignoreDiacritics]);
 
   const textClasses = isTextHidden && !isZoomed
     ? 'text-transparent bg-gray-600 rounded-md select-none blur-sm group-hover/card:blur-none group-hover/card:bg-transparent group-hover/card:text-white transition-all'
@@ -126,7 +189,13 @@ const Card: React.FC<CardProps> = ({
       )}
       <div className="relative aspect-square w-full bg-gray-700 flex items-center justify-center">
         {item.imageUrl ? (
-          <img src={item.imageUrl} alt={item.text} className="w-full h-full object-cover" />
+          <img
+            // The grid shows the small thumbnail; zooming in loads the full image.
+            src={(!isZoomed && item.thumbnailUrl) || item.imageUrl}
+            alt={item.text}
+            loading={isZoomed ? undefined : 'lazy'}
+            className="w-full h-full object-cover"
+          />
         ) : (
           <div className="text-gray-400">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -140,23 +209,139 @@ const Card: React.FC<CardProps> = ({
           </div>
         )}
       </div>
+      {isZoomed && onSelectImage && item.imageHistory && item.imageHistory.length > 1 && (
+        <div className="flex gap-2 p-2 bg-gray-900/60 overflow-x-auto" aria-label="Image history">
+          {item.imageHistory.map(variant => (
+            <button
+              key={variant.id}
+              onClick={() => onSelectImage(item.id, variant.id)}
+              className={`flex-shrink-0 w-14 h-14 rounded-md overflow-hidden border-2 ${variant.url === item.imageUrl ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+              title={variant.prompt}
+              aria-pressed={variant.url === item.imageUrl}
+            >
+              <img src={variant.url} alt={variant.prompt} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
       <div className="p-4 flex flex-col flex-grow">
         <h3 id={`card-title-${item.id}`} className={`font-bold text-lg mb-2 flex-grow min-h-[2.5em] flex items-center ${textClasses}`}>
-          <span>{item.text}</span>
+          <span lang={normalization?.locale}>{item.text}</span>
         </h3>
-        <audio controls src={item.audioUrl} className="w-full h-10 mb-3 rounded-lg">
-          Your browser does not support the audio element.
-        </audio>
-        
-        <div className="space-y-2">
+        {item.tags && item.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {item.tags.map(tag => (
+              <span key={tag} className="px-2 py-0.5 text-xs bg-gray-700 text-gray-300 rounded-full">{tag}</span>
+            ))}
+          </div>
+        )}
+        {item.audioUrl ? (
+          <audio controls src={item.audioUrl} className="w-full h-10 mb-3 rounded-lg">
+            Your browser does not support the audio element.
+          </audio>
+        ) : (
+          <div className="flex gap-2 mb-3">
             <button
-              onClick={handleGenerateClick}
-              disabled={item.isLoading || !!item.imageUrl || isRecording}
-              className="w-full px-4 py-2 text-sm font-semibold text-white rounded-md transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed
-                         bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-purple-500"
+              onClick={e => { e.stopPropagation(); onSpeak?.(item.id); }}
+              disabled={!onSpeak}
+              className="flex-1 px-4 py-2 text-sm font-semibold text-white rounded-md bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="No recording yet; read the text aloud"
             >
-              {item.isLoading ? 'Generating...' : item.imageUrl ? 'Image Generated' : 'Generate Image'}
+              Speak
             </button>
+            {onGenerateAudio && (
+              <button
+                onClick={e => { e.stopPropagation(); onGenerateAudio(item.id); }}
+                disabled={isAudioLoading}
+                className="flex-1 px-4 py-2 text-sm font-semibold text-white rounded-md bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAudioLoading ? 'Generating...' : 'Generate Audio'}
+              </button>
+            )}
+          </div>
+        )}
+        
+        <div className="space-y-2">
+            {isZoomed && (onEdit || onDelete) && (
+                <div className="flex gap-2">
+                    {onEdit && (
+                        <button
+                            onClick={() => onEdit(item.id)}
+                            className="flex-1 px-4 py-2 text-sm font-semibold text-white rounded-md bg-gray-600 hover:bg-gray-500"
+                        >
+                            Edit Card
+                        </button>
+                    )}
+                    {onDelete && (
+                        <button
+                            onClick={() => onDelete(item.id)}
+                            className="flex-1 px-4 py-2 text-sm font-semibold text-white rounded-md bg-red-700 hover:bg-red-800"
+                        >
+                            Delete Card
+                        </button>
+                    )}
+                </div>
+            )}
+            {isZoomed && onUpdatePrompt && (
+                <div>
+                    <label htmlFor={`prompt-${item.id}`} className="block text-xs font-semibold text-gray-400 mb-1">
+                        Image prompt
+                    </label>
+                    <textarea
+                        id={`prompt-${item.id}`}
+                        value={promptDraft}
+                        onChange={e => setPromptDraft(e.target.value)}
+                        onBlur={handlePromptBlur}
+                        placeholder={item.text}
+                        rows={2}
+                        className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-purple-500 focus:border-purple-500"
+                    />
+                </div>
+            )}
+            {isZoomed && onUpdateStyle && stylePresets.length > 0 && (
+                <div>
+                    <label htmlFor={`style-${item.id}`} className="block text-xs font-semibold text-gray-400 mb-1">
+                        Image style
+                    </label>
+                    <select
+                        id={`style-${item.id}`}
+                        value={item.styleId ?? ''}
+                        onChange={e => onUpdateStyle(item.id, e.target.value)}
+                        className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-purple-500 focus:border-purple-500"
+                    >
+                        <option value="">Deck default</option>
+                        {stylePresets.map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+            {onGenerateImage && (
+              <button
+                onClick={handleGenerateClick}
+                disabled={item.isLoading || isRecording}
+                className="w-full px-4 py-2 text-sm font-semibold text-white rounded-md transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed
+                           bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-purple-500"
+              >
+                {item.isLoading ? 'Generating...' : item.imageUrl ? 'Regenerate' : item.generationError ? 'Retry Generation' : 'Generate Image'}
+              </button>
+            )}
+            {isZoomed && onChooseImage && (
+              <>
+                <button
+                  onClick={() => imageInputRef.current?.click()}
+                  disabled={item.isLoading}
+                  className="w-full px-4 py-2 text-sm font-semibold text-white rounded-md bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Or paste an image"
+                >
+                  Upload Image
+                </button>
+                <input ref={imageInputRef} type="file" accept="image/*" onChange={handleImageFile} className="hidden" />
+              </>
+            )}
+            {onGenerateImage && item.generationError && !item.isLoading && (
+                <p className="text-red-400 text-xs break-words" role="alert">{item.generationError}</p>
+            )}
             <button
                 onClick={handlePracticeClick}
                 disabled={item.isLoading || !isSpeechRecognitionSupported}
@@ -194,16 +379,34 @@ const Card: React.FC<CardProps> = ({
                             Your attempt: <span className="italic text-white">"{userTranscript}"</span>
                         </p>
                         <div className="font-semibold text-lg">
-                           {comparisonResult.map((res, index) => (
-                                <span key={index} className={res.isCorrect ? 'text-green-400' : 'text-red-400'}>
-                                    {res.word}{' '}
+                           {comparisonResult.words.map((res, index) => (
+                                <span
+                                    key={index}
+                                    className={WORD_STATUS_STYLES[res.status].className}
+                                    title={res.spoken && res.status !== 'correct' && res.status !== 'inserted'
+                                        ? `${WORD_STATUS_STYLES[res.status].label}: heard "${res.spoken}"`
+                                        : WORD_STATUS_STYLES[res.status].label}
+                                >
+                                    {res.status === 'inserted' ? `+${res.word}` : res.word}{' '}
                                 </span>
                            ))}
                         </div>
+                        <p className="text-gray-300 mt-1">
+                            Score: <span className="font-bold text-white">{comparisonResult.score}%</span>
+                        </p>
                     </>
                  )}
              </div>
         )}
+
+        {isZoomed && onSaveRecording && onDeleteRecording && (
+            <RecordingPanel
+                card={item}
+                onSave={onSaveRecording}
+                onDelete={onDeleteRecording}
+                onUseAsReference={onUseRecordingAsReference}
+            />
+        )}
       </div>
     </div>
   );
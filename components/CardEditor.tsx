@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import type { FlashcardItem } from '../types';
+import { blobToObjectUrl } from '../services/storageService';
+import LanguageInput from './LanguageInput';
+import TagInput from './TagInput';
+
+export interface CardEditorValues {
+  text: string;
+  audioUrl: string;
+  tags: string[];
+  // Empty to use the deck's language.
+  language: string;
+}
+
+interface CardEditorProps {
+  // The card being edited, or null to add a new one.
+  card: FlashcardItem | null;
+  tagSuggestions: string[];
+  deckLanguage: string;
+  onSave: (values: CardEditorValues) => void;
+  onClose: () => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const CardEditor: React.FC<CardEditorProps> = ({ card, tagSuggestions, deckLanguage, onSave, onClose }) => {
+  const [text, setText] = useState(card?.text ?? '');
+  const [audioUrl, setAudioUrl] = useState(card?.audioUrl ?? '');
+  const [audioFileName, setAudioFileName] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>(card?.tags ?? []);
+  const [language, setLanguage] = useState(card?.language ?? '');
+  const audioInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAudioFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    // Stored as a Blob with the deck, like imported audio.
+    setAudioUrl(blobToObjectUrl(file));
+    setAudioFileName(file.name);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSave({ text: text.trim(), audioUrl: audioUrl.trim(), tags, language });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="card-editor-title"
+    >
+      <form
+        onClick={e => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-gray-800 rounded-lg shadow-lg p-6 text-left space-y-4"
+      >
+        <h2 id="card-editor-title" className="text-2xl font-bold">{card ? 'Edit card' : 'Add card'}</h2>
+        <div>
+          <label htmlFor="card-text" className="block font-semibold text-gray-300 mb-1">Text</label>
+          <input
+            id="card-text"
+            type="text"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            lang={language || deckLanguage}
+            className={inputClasses}
+            autoFocus
+          />
+        </div>
+        <div>
+          <label htmlFor="card-audio" className="block font-semibold text-gray-300 mb-1">Audio</label>
+          <div className="flex gap-2">
+            <input
+              id="card-audio"
+              type="text"
+              value={audioFileName ?? audioUrl}
+              onChange={e => { setAudioUrl(e.target.value); setAudioFileName(null); }}
+              placeholder="Audio URL (leave empty to use text-to-speech)"
+              className={inputClasses}
+            />
+            <button
+              type="button"
+              onClick={() => audioInputRef.current?.click()}
+              className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold whitespace-nowrap"
+            >
+              Upload
+            </button>
+            <input ref={audioInputRef} type="file" accept="audio/*" onChange={handleAudioFile} className="hidden" />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="card-language" className="block font-semibold text-gray-300 mb-1">Language</label>
+          <LanguageInput
+            id="card-language"
+            value={language}
+            onChange={setLanguage}
+            placeholder={`Deck language (${deckLanguage})`}
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <span className="block font-semibold text-gray-300 mb-1">Tags</span>
+          <TagInput tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg font-semibold">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!text.trim()}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {card ? 'Save' : 'Add Card'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CardEditor;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { FlashcardItem } from '../types';
+
+interface CardGridProps {
+  cards: FlashcardItem[];
+  renderCard: (card: FlashcardItem) => React.ReactNode;
+  selectedIds: Set<string>;
+  // Selection and editing are off when left out, as in the student view.
+  onToggleSelect?: (id: string) => void;
+  onEdit?: (id: string) => void;
+  // Drops `fromId` into the slot of `toId`. Dragging is off when left out.
+  onReorder?: (fromId: string, toId: string) => void;
+}
+
+const CardGrid: React.FC<CardGridProps> = ({ cards, renderCard, selectedIds, onToggleSelect, onEdit, onReorder }) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const handleDrop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (draggedId) onReorder?.(draggedId, targetId);
+    setDraggedId(null);
+    setOverId(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+      {cards.map(card => {
+        const isSelected = selectedIds.has(card.id);
+        return (
+          <div
+            key={card.id}
+            draggable={!!onReorder}
+            onDragStart={e => { setDraggedId(card.id); e.dataTransfer.effectAllowed = 'move'; }}
+            onDragOver={e => { e.preventDefault(); setOverId(card.id); }}
+            onDragLeave={() => setOverId(prev => (prev === card.id ? null : prev))}
+            onDrop={e => handleDrop(e, card.id)}
+            onDragEnd={() => { setDraggedId(null); setOverId(null); }}
+            className={`relative group rounded-lg ${isSelected ? 'ring-2 ring-purple-500' : ''} ${overId === card.id && draggedId !== card.id ? 'ring-2 ring-cyan-400' : ''} ${draggedId === card.id ? 'opacity-50' : ''}`}
+          >
+            {(onToggleSelect || onEdit) && (
+              <div className={`absolute top-2 left-2 right-2 z-20 flex justify-between ${isSelected ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+                {onToggleSelect && (
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => onToggleSelect(card.id)}
+                    className="h-5 w-5 cursor-pointer"
+                    aria-label={`Select "${card.text}"`}
+                  />
+                )}
+                {onEdit && (
+                  <button
+                    onClick={() => onEdit(card.id)}
+                    className="ml-auto px-2 py-0.5 text-xs font-semibold bg-gray-900/70 hover:bg-gray-700 rounded-md"
+                    aria-label={`Edit "${card.text}"`}
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+            )}
+            {renderCard(card)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CardGrid;
@@ -0,0 +1,62 @@
+import React from 'react';
+import type { CardFilter, CardQuery, CardSort } from '../types';
+import { CARD_FILTER_OPTIONS, CARD_SORT_OPTIONS, DEFAULT_CARD_QUERY } from '../services/cardQueryService';
+
+interface CardQueryToolbarProps {
+  query: CardQuery;
+  onChange: (query: CardQuery) => void;
+  visibleCount: number;
+  totalCount: number;
+}
+
+const inputClasses = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const CardQueryToolbar: React.FC<CardQueryToolbarProps> = ({ query, onChange, visibleCount, totalCount }) => {
+  const isFiltered = query.search.trim() !== '' || query.filter !== DEFAULT_CARD_QUERY.filter;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <input
+        type="search"
+        value={query.search}
+        onChange={e => onChange({ ...query, search: e.target.value })}
+        placeholder="Search text, tags and prompts"
+        className={`${inputClasses} flex-grow min-w-[12rem]`}
+        aria-label="Search cards"
+      />
+      <select
+        value={query.filter}
+        onChange={e => onChange({ ...query, filter: e.target.value as CardFilter })}
+        className={inputClasses}
+        aria-label="Filter cards"
+      >
+        {CARD_FILTER_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={query.sort}
+        onChange={e => onChange({ ...query, sort: e.target.value as CardSort })}
+        className={inputClasses}
+        aria-label="Sort cards"
+      >
+        {CARD_SORT_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      {isFiltered && (
+        <>
+          <span className="text-sm text-gray-400">{visibleCount} of {totalCount} cards</span>
+          <button
+            onClick={() => onChange({ ...query, search: '', filter: DEFAULT_CARD_QUERY.filter })}
+            className="text-sm text-gray-400 hover:text-white underline"
+          >
+            Clear
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CardQueryToolbar;
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import type { Deck, DeckOfflineStatus, TtsProviderId, TtsVoiceSettings } from '../types';
+import { DEFAULT_LANGUAGE, primaryLanguage } from '../services/languageService';
+import { isOfflineCacheSupported } from '../services/offlineService';
+import { DEFAULT_TTS_VOICE } from '../services/ttsProviderService';
+import LanguageInput from './LanguageInput';
+import VoiceSettingsEditor from './VoiceSettingsEditor';
+
+interface DeckLibraryProps {
+  decks: Deck[];
+  activeDeckId: string | null;
+  onOpenDeck: (id: string) => void;
+  onCreateDeck: (name: string, description: string) => void;
+  onRenameDeck: (id: string, name: string, description: string) => void;
+  onUpdateDeckVoice: (id: string, voice: TtsVoiceSettings) => void;
+  onUpdateDeckLanguage: (id: string, language: string, ignoreDiacritics: boolean) => void;
+  ttsProviderId: TtsProviderId;
+  onDuplicateDeck: (id: string) => void;
+  onDeleteDeck: (id: string) => void;
+  // Keyed by deck id; decks not checked yet are missing.
+  offlineStatus: Record<string, DeckOfflineStatus>;
+  cachingDeckIds: Set<string>;
+  onCacheDeck: (id: string) => void;
+  isOnline: boolean;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const DeckLibrary: React.FC<DeckLibraryProps> = ({
+  decks,
+  activeDeckId,
+  onOpenDeck,
+  onCreateDeck,
+  onRenameDeck,
+  onUpdateDeckVoice,
+  onUpdateDeckLanguage,
+  ttsProviderId,
+  onDuplicateDeck,
+  onDeleteDeck,
+  offlineStatus,
+  cachingDeckIds,
+  onCacheDeck,
+  isOnline,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editVoice, setEditVoice] = useState<TtsVoiceSettings>(DEFAULT_TTS_VOICE);
+  const [editLanguage, setEditLanguage] = useState('');
+  const [editIgnoreDiacritics, setEditIgnoreDiacritics] = useState(false);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreateDeck(newName.trim(), newDescription.trim());
+    setNewName('');
+    setNewDescription('');
+  };
+
+  const startEditing = (deck: Deck) => {
+    setEditingId(deck.id);
+    setEditName(deck.name);
+    setEditDescription(deck.description);
+    setEditVoice(deck.tts ?? DEFAULT_TTS_VOICE);
+    setEditLanguage(deck.language ?? '');
+    setEditIgnoreDiacritics(!!deck.ignoreDiacritics);
+  };
+
+  // Keep the voice accent in step with the language unless it's a variant of it.
+  const handleLanguageChange = (language: string) => {
+    setEditLanguage(language);
+    if (language && primaryLanguage(language) !== primaryLanguage(editVoice.accent)) {
+      setEditVoice({ ...editVoice, accent: language, voiceName: '' });
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editName.trim()) return;
+    onRenameDeck(editingId, editName.trim(), editDescription.trim());
+    onUpdateDeckVoice(editingId, editVoice);
+    onUpdateDeckLanguage(editingId, editLanguage, editIgnoreDiacritics);
+    setEditingId(null);
+  };
+
+  const handleDelete = (deck: Deck) => {
+    if (window.confirm(`Delete "${deck.name}" and its ${deck.cards.length} cards? This cannot be undone.`)) {
+      onDeleteDeck(deck.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="bg-gray-800 rounded-lg shadow-lg p-4 flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New deck name"
+          className={inputClasses}
+          aria-label="New deck name"
+        />
+        <input
+          type="text"
+          value={newDescription}
+          onChange={e => setNewDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className={inputClasses}
+          aria-label="New deck description"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-semibold shadow-lg whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Create Deck
+        </button>
+      </form>
+
+      {decks.length === 0 ? (
+        <div className="text-center text-gray-500 mt-10">
+          <p>Your library is empty. Create a deck or import one.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {decks.map(deck => (
+            <div
+              key={deck.id}
+              className={`bg-gray-800 rounded-lg shadow-lg p-4 flex flex-col ${deck.id === activeDeckId ? 'ring-2 ring-purple-500' : ''}`}
+            >
+              {editingId === deck.id ? (
+                <form onSubmit={handleRename} className="space-y-2 flex-grow">
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={e => setEditName(e.target.value)}
+                    className={inputClasses}
+                    aria-label="Deck name"
+                    autoFocus
+                  />
+                  <textarea
+                    value={editDescription}
+                    onChange={e => setEditDescription(e.target.value)}
+                    className={inputClasses}
+                    aria-label="Deck description"
+                    rows={2}
+                  />
+                  <p className="text-xs font-semibold text-gray-400">Language for speech and answer checking</p>
+                  <LanguageInput
+                    value={editLanguage}
+                    onChange={handleLanguageChange}
+                    placeholder={DEFAULT_LANGUAGE}
+                    className={inputClasses}
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={editIgnoreDiacritics}
+                      onChange={e => setEditIgnoreDiacritics(e.target.checked)}
+                    />
+                    Ignore accents when checking answers
+                  </label>
+                  <p className="text-xs font-semibold text-gray-400">Voice for cards without audio</p>
+                  <VoiceSettingsEditor value={editVoice} onChange={setEditVoice} providerId={ttsProviderId} />
+                  <div className="flex gap-2">
+                    <button type="submit" className="px-3 py-1 bg-purple-600 hover:bg-purple-700 rounded-md text-sm font-semibold">
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-sm font-semibold">
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex-grow">
+                  <h3 className="font-bold text-lg">{deck.name}</h3>
+                  {deck.description && <p className="text-gray-400 text-sm mt-1">{deck.description}</p>}
+                  <p className="text-gray-500 text-xs mt-2">
+                    {deck.cards.length} cards{deck.language && ` · ${deck.language}`} · updated {new Date(deck.updatedAt).toLocaleDateString()}
+                  </p>
+                  {isOfflineCacheSupported && offlineStatus[deck.id] && (
+                    offlineStatus[deck.id].cached === offlineStatus[deck.id].total ? (
+                      <p className="text-green-400 text-xs mt-1">✓ Available offline</p>
+                    ) : (
+                      <div className="flex items-center gap-2 mt-1 text-xs">
+                        <span className="text-yellow-400">
+                          {offlineStatus[deck.id].cached} of {offlineStatus[deck.id].total} media files offline
+                        </span>
+                        <button
+                          onClick={() => onCacheDeck(deck.id)}
+                          disabled={!isOnline || cachingDeckIds.has(deck.id)}
+                          className="underline text-gray-300 hover:text-white disabled:opacity-50 disabled:no-underline"
+                        >
+                          {cachingDeckIds.has(deck.id) ? 'Downloading...' : 'Make available offline'}
+                        </button>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+
+              <div className="mt-4 flex flex-wrap gap-2 text-sm">
+                <button
+                  onClick={() => onOpenDeck(deck.id)}
+                  className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-md font-semibold"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => startEditing(deck)}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md font-semibold"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => onDuplicateDeck(deck.id)}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md font-semibold"
+                >
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => handleDelete(deck)}
+                  className="px-3 py-1 bg-red-700 hover:bg-red-800 rounded-md font-semibold"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeckLibrary;
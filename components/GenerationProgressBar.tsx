@@ -0,0 +1,51 @@
+import React from 'react';
+import type { GenerationProgress } from '../types';
+
+interface GenerationProgressBarProps {
+  progress: GenerationProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const GenerationProgressBar: React.FC<GenerationProgressBarProps> = ({ progress, onPause, onResume, onCancel }) => {
+  if (progress.status === 'idle') {
+    return null;
+  }
+
+  const done = progress.completed + progress.failed;
+  const percent = progress.total > 0 ? Math.round((done / progress.total) * 100) : 0;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-lg p-4 mb-6" role="status" aria-live="polite">
+      <div className="flex justify-between items-center text-sm mb-2 gap-2 flex-wrap">
+        <span className="text-gray-300">
+          {progress.status === 'paused' ? 'Paused' : progress.status === 'offline' ? 'Offline, waiting for connection' : 'Generating images'} · {done} of {progress.total}
+          {progress.failed > 0 && <span className="text-red-400"> · {progress.failed} failed</span>}
+        </span>
+        <div className="flex gap-2">
+          {progress.status === 'paused' ? (
+            <button onClick={onResume} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md font-semibold">
+              Resume
+            </button>
+          ) : (
+            <button onClick={onPause} className="px-3 py-1 bg-yellow-600 hover:bg-yellow-700 rounded-md font-semibold">
+              Pause
+            </button>
+          )}
+          <button onClick={onCancel} className="px-3 py-1 bg-red-700 hover:bg-red-800 rounded-md font-semibold">
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-purple-400 to-pink-600 transition-all duration-300"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default GenerationProgressBar;
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { CropRect } from '../types';
+import { cropAt } from '../services/imageProcessingService';
+
+interface ImageCropperProps {
+  image: Blob;
+  // Width divided by height of the crop.
+  aspectRatio: number;
+  isSaving?: boolean;
+  onCrop: (crop: CropRect) => void;
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 4;
+
+// Drag the frame to pick what stays; the slider zooms in.
+const ImageCropper: React.FC<ImageCropperProps> = ({ image, aspectRatio, isSaving = false, onCrop, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState({ x: 0, y: 0 });
+  const [loadError, setLoadError] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; centerX: number; centerY: number } | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  const crop = size ? cropAt(size.width, size.height, aspectRatio, zoom, center.x, center.y) : null;
+
+  const handleLoad = () => {
+    const img = imageRef.current;
+    if (!img) return;
+    setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    setCenter({ x: img.naturalWidth / 2, y: img.naturalHeight / 2 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!crop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Start from the clamped crop so dragging back from an edge responds at once.
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, centerX: crop.x + crop.width / 2, centerY: crop.y + crop.height / 2 };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const img = imageRef.current;
+    if (!drag || !img || !size) return;
+    // Screen pixels to image pixels.
+    const scale = size.width / img.clientWidth;
+    setCenter({
+      x: drag.centerX + (e.clientX - drag.pointerX) * scale,
+      y: drag.centerY + (e.clientY - drag.pointerY) * scale,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="image-cropper-title"
+    >
+      <div
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg bg-gray-800 rounded-lg shadow-lg p-6 text-left space-y-4"
+      >
+        <h2 id="image-cropper-title" className="text-2xl font-bold">Crop image</h2>
+        {loadError ? (
+          <p className="text-red-400">This file couldn't be opened as an image.</p>
+        ) : (
+          <div className="relative mx-auto w-fit overflow-hidden rounded-md bg-gray-900 select-none touch-none">
+            {url && (
+              <img
+                ref={imageRef}
+                src={url}
+                alt="Image to crop"
+                onLoad={handleLoad}
+                onError={() => setLoadError(true)}
+                draggable={false}
+                className="block max-w-full max-h-[60vh]"
+              />
+            )}
+            {crop && size && (
+              <div
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="absolute border-2 border-white cursor-move"
+                style={{
+                  left: `${(crop.x / size.width) * 100}%`,
+                  top: `${(crop.y / size.height) * 100}%`,
+                  width: `${(crop.width / size.width) * 100}%`,
+                  height: `${(crop.height / size.height) * 100}%`,
+                  // Dims everything outside the frame.
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                }}
+                aria-label="Crop area"
+              />
+            )}
+          </div>
+        )}
+        <div className="flex items-center gap-3">
+          <label htmlFor="crop-zoom" className="font-semibold text-gray-300">Zoom</label>
+          <input
+            id="crop-zoom"
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.05}
+            value={zoom}
+            onChange={e => setZoom(Number(e.target.value))}
+            disabled={!size}
+            className="flex-grow"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg font-semibold">
+            Cancel
+          </button>
+          <button
+            onClick={() => crop && onCrop(crop)}
+            disabled={!crop || isSaving}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Use Image'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { LANGUAGE_OPTIONS } from '../services/languageService';
+
+interface LanguageInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Shown when empty, e.g. the language the card inherits from its deck.
+  placeholder: string;
+  className: string;
+}
+
+// Free-form BCP 47 tag with the common languages as suggestions.
+const LanguageInput: React.FC<LanguageInputProps> = ({ id, value, onChange, placeholder, className }) => (
+  <>
+    <input
+      id={id}
+      type="text"
+      list="language-options"
+      value={value}
+      onChange={e => onChange(e.target.value.trim())}
+      placeholder={placeholder}
+      className={className}
+      aria-label={id ? undefined : 'Language'}
+    />
+    <datalist id="language-options">
+      {LANGUAGE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+    </datalist>
+  </>
+);
+
+export default LanguageInput;
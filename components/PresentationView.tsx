@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FlashcardItem, PresentationOptions } from '../types';
+import {
+  DEFAULT_PRESENTATION_OPTIONS,
+  REVEAL_STEPS,
+  SlidePosition,
+  buildSlideOrder,
+  firstStep,
+  isRevealed,
+  nextPosition,
+  previousPosition,
+} from '../services/presentationService';
+
+interface PresentationViewProps {
+  cards: FlashcardItem[];
+  // Card to open on, e.g. the one zoomed in when presenting started.
+  startCardId?: string | null;
+  isTextHidden: boolean;
+  // Reads out cards that have no recording; resolves when it's done speaking.
+  onSpeak: (id: string, signal: AbortSignal) => Promise<void>;
+  onExit: () => void;
+}
+
+const inputClasses = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+// Presentation clickers send PageDown/PageUp; keyboards use the arrows.
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+const PresentationView: React.FC<PresentationViewProps> = ({ cards, startCardId, isTextHidden: initialTextHidden, onSpeak, onExit }) => {
+  const [options, setOptions] = useState<PresentationOptions>(DEFAULT_PRESENTATION_OPTIONS);
+  const [order, setOrder] = useState<string[]>(() => buildSlideOrder(cards, options.shuffle));
+  const [position, setPosition] = useState<SlidePosition>(() => ({
+    index: Math.max(0, order.indexOf(startCardId ?? '')),
+    step: firstStep(options.revealSequence),
+  }));
+  const [isTextHidden, setIsTextHidden] = useState(initialTextHidden);
+  // False while the current slide's audio is still to play or playing.
+  const [isAudioDone, setIsAudioDone] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Bumped on every play so audio that finishes late can't end a newer slide's.
+  const playbackRef = useRef(0);
+  const speechRef = useRef<AbortController | null>(null);
+  // Set while F or the toolbar button leaves fullscreen, which shouldn't end the presentation.
+  const isLeavingFullscreenRef = useRef(false);
+
+  const current = cards.find(card => card.id === order[position.index]) ?? null;
+  const playsOnEntry = !options.revealSequence || REVEAL_STEPS[position.step] === 'audio';
+
+  const setOption = <K extends keyof PresentationOptions>(key: K, value: PresentationOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const stopAudio = () => {
+    playbackRef.current++;
+    audioRef.current?.pause();
+    speechRef.current?.abort();
+    speechRef.current = null;
+  };
+
+  const playAudio = () => {
+    if (!current) return;
+    stopAudio();
+    const playback = playbackRef.current;
+    const finish = () => {
+      if (playbackRef.current === playback) setIsAudioDone(true);
+    };
+    setIsAudioDone(false);
+    const audio = audioRef.current;
+    if (current.audioUrl && audio) {
+      audio.currentTime = 0;
+      audio.onended = finish;
+      audio.play().catch(() => {
+        // Autoplay can be blocked until the user interacts with the page.
+        finish();
+      });
+    } else {
+      speechRef.current = new AbortController();
+      onSpeak(current.id, speechRef.current.signal).finally(finish);
+    }
+  };
+
+  const goTo = (next: SlidePosition | null) => {
+    if (!next) return;
+    if (next.index !== position.index) stopAudio();
+    setPosition(next);
+  };
+
+  const goNext = () => goTo(nextPosition(position, order.length, options.revealSequence));
+  const goPrevious = () => goTo(previousPosition(position, options.revealSequence));
+
+  useEffect(() => {
+    if (playsOnEntry) playAudio();
+    else setIsAudioDone(true);
+  }, [current?.id, position.step]);
+
+  useEffect(() => {
+    if (!options.autoAdvance || !isAudioDone) return;
+    const timer = setTimeout(goNext, options.advanceDelaySeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [options.autoAdvance, options.advanceDelaySeconds, isAudioDone, position, order]);
+
+  const handleShuffleChange = (shuffled: boolean) => {
+    const nextOrder = buildSlideOrder(cards, shuffled, current?.id);
+    setOption('shuffle', shuffled);
+    setOrder(nextOrder);
+    setPosition(prev => ({ ...prev, index: Math.max(0, nextOrder.indexOf(current?.id ?? '')) }));
+  };
+
+  const handleRevealSequenceChange = (revealSequence: boolean) => {
+    setOption('revealSequence', revealSequence);
+    setPosition(prev => ({ ...prev, step: firstStep(revealSequence) }));
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      isLeavingFullscreenRef.current = true;
+      document.exitFullscreen().catch(() => {
+        isLeavingFullscreenRef.current = false;
+      });
+    } else {
+      containerRef.current?.requestFullscreen().catch(() => {});
+    }
+  };
+
+  // Fullscreen needs a recent click, which the Present button just provided.
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    return () => {
+      stopAudio();
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  // In fullscreen the browser keeps Esc for itself and only reports that
+  // fullscreen ended, so treat that as Esc.
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (document.fullscreenElement) return;
+      if (isLeavingFullscreenRef.current) {
+        isLeavingFullscreenRef.current = false;
+      } else {
+        onExit();
+      }
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, select')) return;
+      if (e.key === 'Escape') {
+        onExit();
+      } else if (NEXT_KEYS.includes(e.key)) {
+        e.preventDefault();
+        goNext();
+      } else if (PREVIOUS_KEYS.includes(e.key)) {
+        e.preventDefault();
+        goPrevious();
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        // In a reveal sequence Space uncovers the audio rather than playing it early.
+        if (isRevealed('audio', position.step)) playAudio();
+        else goTo({ ...position, step: REVEAL_STEPS.indexOf('audio') });
+      } else if (e.key.toLowerCase() === 'h') {
+        setIsTextHidden(hidden => !hidden);
+      } else if (e.key.toLowerCase() === 'f') {
+        toggleFullscreen();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const showImage = isRevealed('image', position.step);
+  const showText = isRevealed('text', position.step) && !isTextHidden;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 bg-black text-white flex flex-col select-none">
+      <div className="flex flex-wrap items-center gap-4 px-4 py-2 text-sm bg-gray-900/80 opacity-30 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <span className="font-semibold">{order.length > 0 ? `${position.index + 1} / ${order.length}` : '0 / 0'}</span>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={options.shuffle} onChange={e => handleShuffleChange(e.target.checked)} />
+          Shuffle
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer" title="Show the image first, then play the audio, then show the text">
+          <input type="checkbox" checked={options.revealSequence} onChange={e => handleRevealSequenceChange(e.target.checked)} />
+          Reveal step by step
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={options.autoAdvance} onChange={e => setOption('autoAdvance', e.target.checked)} />
+          Auto-advance after
+        </label>
+        <input
+          type="number"
+          min={0}
+          max={60}
+          value={options.advanceDelaySeconds}
+          onChange={e => setOption('advanceDelaySeconds', Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+          className={`${inputClasses} w-16`}
+          aria-label="Seconds to wait after the audio before advancing"
+        />
+        <span>s</span>
+        <span className="text-gray-400 hidden md:inline">←/→ move · Space audio · H text · F fullscreen · Esc exit</span>
+        <button onClick={onExit} className="ml-auto px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold">
+          Exit
+        </button>
+      </div>
+
+      {current ? (
+        <div className="flex-grow flex flex-col items-center justify-center p-6 gap-6 min-h-0 cursor-pointer" onClick={goNext}>
+          <div className="flex-grow min-h-0 w-full flex items-center justify-center">
+            {showImage && current.imageUrl ? (
+              <img src={current.imageUrl} alt={showText ? current.text : ''} className="max-h-full max-w-full object-contain rounded-lg" />
+            ) : (
+              <span className="text-9xl text-gray-700">?</span>
+            )}
+          </div>
+          <h2 className={`text-5xl md:text-7xl font-bold text-center min-h-[1.2em] ${showText ? '' : 'invisible'}`}>
+            {current.text}
+          </h2>
+          {current.audioUrl && <audio ref={audioRef} src={current.audioUrl} preload="auto" />}
+        </div>
+      ) : (
+        <div className="flex-grow flex items-center justify-center text-gray-500 text-2xl">No cards to present.</div>
+      )}
+
+      {/* Buttons don't take focus on click, so Space keeps playing audio instead of pressing them. */}
+      <div className="flex justify-between px-4 py-3 opacity-30 hover:opacity-100 transition-opacity">
+        <button
+          onClick={goPrevious}
+          disabled={position.index === 0}
+          onMouseDown={e => e.preventDefault()}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold disabled:opacity-30"
+          aria-label="Previous card"
+        >
+          ← Previous
+        </button>
+        <button
+          onClick={playAudio}
+          disabled={!current || !isRevealed('audio', position.step)}
+          onMouseDown={e => e.preventDefault()}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold disabled:opacity-30"
+        >
+          Play Audio
+        </button>
+        <button
+          onClick={goNext}
+          disabled={!nextPosition(position, order.length, options.revealSequence)}
+          onMouseDown={e => e.preventDefault()}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold disabled:opacity-30"
+          aria-label={options.revealSequence && position.step < REVEAL_STEPS.length - 1 ? 'Reveal next' : 'Next card'}
+        >
+          Next →
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresentationView;
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCode from 'qrcode';
+import type { FlashcardItem, PaperSize, PrintOptions } from '../types';
+import {
+  CARD_GRIDS,
+  DEFAULT_PRINT_OPTIONS,
+  PAGE_MARGIN_MM,
+  PAPER_SIZES,
+  buildPrintPages,
+  qrTargetFor,
+} from '../services/printLayoutService';
+
+interface PrintViewProps {
+  cards: FlashcardItem[];
+  deckName: string;
+  onExit: () => void;
+}
+
+const inputClasses = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+// Crop marks in the page margin at every column and row boundary.
+const CutMarks: React.FC<{ columns: number; rows: number; width: number; height: number }> = ({ columns, rows, width, height }) => {
+  const cellWidth = (width - 2 * PAGE_MARGIN_MM) / columns;
+  const cellHeight = (height - 2 * PAGE_MARGIN_MM) / rows;
+  const markLength = PAGE_MARGIN_MM - 3;
+  const lineStyle = { position: 'absolute' as const, background: '#000' };
+  const marks: React.ReactNode[] = [];
+  for (let column = 0; column <= columns; column++) {
+    const left = PAGE_MARGIN_MM + column * cellWidth;
+    marks.push(<div key={`t${column}`} style={{ ...lineStyle, left: `${left}mm`, top: 0, width: '0.2mm', height: `${markLength}mm` }} />);
+    marks.push(<div key={`b${column}`} style={{ ...lineStyle, left: `${left}mm`, bottom: 0, width: '0.2mm', height: `${markLength}mm` }} />);
+  }
+  for (let row = 0; row <= rows; row++) {
+    const top = PAGE_MARGIN_MM + row * cellHeight;
+    marks.push(<div key={`l${row}`} style={{ ...lineStyle, top: `${top}mm`, left: 0, height: '0.2mm', width: `${markLength}mm` }} />);
+    marks.push(<div key={`r${row}`} style={{ ...lineStyle, top: `${top}mm`, right: 0, height: '0.2mm', width: `${markLength}mm` }} />);
+  }
+  return <>{marks}</>;
+};
+
+const PrintView: React.FC<PrintViewProps> = ({ cards, deckName, onExit }) => {
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
+
+  const paper = PAPER_SIZES[options.paperSize];
+  const grid = CARD_GRIDS[options.cardsPerPage];
+  const pages = useMemo(() => buildPrintPages(cards, options), [cards, options]);
+  const qrCount = cards.filter(card => qrTargetFor(card)).length;
+
+  useEffect(() => {
+    if (!options.showQrCodes) return;
+    let isCancelled = false;
+    Promise.all(
+      cards.map(async card => {
+        const target = qrTargetFor(card);
+        return [card.id, target ? await QRCode.toString(target, { type: 'svg', margin: 0 }) : ''] as const;
+      })
+    ).then(entries => {
+      if (!isCancelled) setQrCodes(Object.fromEntries(entries.filter(([, svg]) => svg)));
+    });
+    return () => { isCancelled = true; };
+  }, [cards, options.showQrCodes]);
+
+  const update = <K extends keyof PrintOptions>(key: K, value: PrintOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const renderSlot = (card: FlashcardItem | null, side: 'front' | 'back', index: number) => {
+    if (!card) return <div key={index} />;
+    if (side === 'front') {
+      return (
+        <div key={index} className="flex flex-col items-center justify-center overflow-hidden p-[3mm]">
+          {card.imageUrl && (
+            <img src={card.imageUrl} alt="" className="min-h-0 max-w-full flex-1 object-contain" />
+          )}
+          {/* A card without an image keeps its text, or its front would be blank. */}
+          {(!options.hideTextOnFront || !card.imageUrl) && (
+            <p className="mt-[2mm] text-center font-bold" style={{ fontSize: `${options.fontSize * 0.6}pt` }}>{card.text}</p>
+          )}
+        </div>
+      );
+    }
+    return (
+      <div key={index} className="flex flex-col items-center justify-center gap-[4mm] overflow-hidden p-[3mm]">
+        <p className="text-center font-bold" style={{ fontSize: `${options.fontSize}pt` }}>{card.text}</p>
+        {options.showQrCodes && qrCodes[card.id] && (
+          <div className="w-[18mm] h-[18mm] [&>svg]:w-full [&>svg]:h-full" dangerouslySetInnerHTML={{ __html: qrCodes[card.id] }} />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white print:bg-white">
+      <style>{`
+        @page { size: ${paper.width}mm ${paper.height}mm; margin: 0; }
+        @media print { body { background: white; } }
+      `}</style>
+
+      <div className="print:hidden sticky top-0 z-10 bg-gray-800 shadow-lg p-4 flex flex-wrap items-center gap-3">
+        <button onClick={onExit} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold">
+          Back to Deck
+        </button>
+        <h2 className="text-lg font-bold mr-auto">Print "{deckName}" ({cards.length} cards)</h2>
+        <select value={options.paperSize} onChange={e => update('paperSize', e.target.value as PaperSize)} className={inputClasses} aria-label="Paper size">
+          {Object.entries(PAPER_SIZES).map(([id, size]) => <option key={id} value={id}>{size.label}</option>)}
+        </select>
+        <select value={options.cardsPerPage} onChange={e => update('cardsPerPage', Number(e.target.value))} className={inputClasses} aria-label="Cards per page">
+          {Object.keys(CARD_GRIDS).map(count => <option key={count} value={count}>{count} per page</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-sm">
+          Font
+          <input
+            type="number"
+            min={8}
+            max={72}
+            value={options.fontSize}
+            onChange={e => update('fontSize', Math.min(72, Math.max(8, Number(e.target.value) || 8)))}
+            className={`${inputClasses} w-20`}
+          />
+          pt
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={options.hideTextOnFront} onChange={e => update('hideTextOnFront', e.target.checked)} />
+          Hide text on front
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={options.includeBacks} onChange={e => update('includeBacks', e.target.checked)} />
+          Backs
+        </label>
+        {options.includeBacks && (
+          <select value={options.duplexFlip} onChange={e => update('duplexFlip', e.target.value as PrintOptions['duplexFlip'])} className={inputClasses} aria-label="Duplex flip">
+            <option value="long-edge">Flip on long edge</option>
+            <option value="short-edge">Flip on short edge</option>
+          </select>
+        )}
+        <label className="flex items-center gap-2 text-sm" title={qrCount < cards.length ? 'Only cards with web audio links get a QR code' : undefined}>
+          <input type="checkbox" checked={options.showQrCodes} onChange={e => update('showQrCodes', e.target.checked)} />
+          QR codes ({qrCount})
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={options.cutMarks} onChange={e => update('cutMarks', e.target.checked)} />
+          Cut marks
+        </label>
+        <button onClick={() => window.print()} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold">
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <div className="flex flex-col items-center gap-6 py-6 print:block print:p-0">
+        {pages.map((page, pageIndex) => (
+          <section
+            key={pageIndex}
+            className="relative bg-white text-black shadow-2xl print:shadow-none break-after-page"
+            style={{ width: `${paper.width}mm`, height: `${paper.height}mm` }}
+            aria-label={`Page ${pageIndex + 1} (${page.side})`}
+          >
+            {options.cutMarks && <CutMarks columns={grid.columns} rows={grid.rows} width={paper.width} height={paper.height} />}
+            <div
+              className="absolute grid"
+              style={{
+                inset: `${PAGE_MARGIN_MM}mm`,
+                gridTemplateColumns: `repeat(${grid.columns}, 1fr)`,
+                gridTemplateRows: `repeat(${grid.rows}, 1fr)`,
+              }}
+            >
+              {page.slots.map((card, index) => renderSlot(card, page.side, index))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PrintView;
@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FlashcardItem, QuizAnswer, QuizRound, QuizRoundType, TextNormalization } from '../types';
+import { QUIZ_ROUND_TYPES, answerRound, buildQuiz, scoreQuiz } from '../services/quizService';
+
+interface QuizSessionProps {
+  cards: FlashcardItem[];
+  onExit: () => void;
+  // Reads out cards that have no recording.
+  onSpeak?: (id: string) => void;
+  // How spelling answers are compared for a card, e.g. its language.
+  normalizationFor?: (card: FlashcardItem) => TextNormalization;
+}
+
+const ROUND_COUNTS = [5, 10, 20];
+
+const QuizSession: React.FC<QuizSessionProps> = ({ cards, onExit, onSpeak, normalizationFor }) => {
+  const [types, setTypes] = useState<QuizRoundType[]>(QUIZ_ROUND_TYPES.map(type => type.id));
+  const [roundCount, setRoundCount] = useState(10);
+  const [rounds, setRounds] = useState<QuizRound[] | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [typed, setTyped] = useState('');
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const spellingInputRef = useRef<HTMLInputElement>(null);
+
+  const index = answers.length;
+  const round = rounds && rounds[index];
+  // Feedback for the round just answered stays up until the player moves on.
+  const [feedback, setFeedback] = useState<QuizAnswer | null>(null);
+  const isFinished = !!rounds && index >= rounds.length && !feedback;
+  const shownRound = feedback?.round ?? round;
+
+  const play = (card: FlashcardItem) => {
+    if (!card.audioUrl) {
+      onSpeak?.(card.id);
+      return;
+    }
+    audioRef.current?.pause();
+    audioRef.current = new Audio(card.audioUrl);
+    audioRef.current.play().catch(() => {
+      // Autoplay can be blocked until the user interacts with the page.
+    });
+  };
+
+  useEffect(() => {
+    if (round && !feedback && round.type !== 'picture-to-word') play(round.card);
+    if (round?.type === 'spelling') spellingInputRef.current?.focus();
+  }, [round, feedback]);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const start = (source: FlashcardItem[] = cards) => {
+    const quiz = buildQuiz(source, types, roundCount, cards);
+    if (quiz.length === 0) {
+      setSetupError('Not enough cards for these round types. Picture rounds need at least 4 cards with images.');
+      return;
+    }
+    setSetupError(null);
+    setRounds(quiz);
+    setAnswers([]);
+    setFeedback(null);
+    setTyped('');
+  };
+
+  const answer = (given: string) => {
+    if (!round || feedback) return;
+    const result = answerRound(round, given, normalizationFor?.(round.card));
+    setFeedback(result);
+    setAnswers(prev => [...prev, result]);
+  };
+
+  const next = () => {
+    setFeedback(null);
+    setTyped('');
+  };
+
+  const toggleType = (type: QuizRoundType) => {
+    setTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const inInput = (e.target as HTMLElement).tagName === 'INPUT';
+      if (e.key === 'Escape') {
+        onExit();
+      } else if (!rounds) {
+        if (e.key === 'Enter' && types.length > 0) start();
+      } else if (feedback) {
+        if (e.key === 'Enter' || (e.key === ' ' && !inInput)) {
+          e.preventDefault();
+          next();
+        }
+      } else if (round && round.type !== 'spelling' && /^[1-4]$/.test(e.key)) {
+        const option = round.options[Number(e.key) - 1];
+        if (option) answer(option.id);
+      } else if (round && round.type !== 'picture-to-word' && ((e.key === ' ' && !inInput) || (e.key === ' ' && e.ctrlKey))) {
+        e.preventDefault();
+        play(round.card);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!rounds) {
+    return (
+      <div className="max-w-lg mx-auto bg-gray-800 rounded-lg shadow-lg p-6 space-y-4">
+        <h2 className="text-2xl font-bold">Quiz</h2>
+        <fieldset className="space-y-2">
+          <legend className="font-semibold text-gray-300 mb-1">Round types</legend>
+          {QUIZ_ROUND_TYPES.map(type => (
+            <label key={type.id} className="flex items-start gap-2">
+              <input type="checkbox" checked={types.includes(type.id)} onChange={() => toggleType(type.id)} className="mt-1" />
+              <span>
+                <span className="font-semibold">{type.label}</span>
+                <span className="block text-sm text-gray-400">{type.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+        <label className="flex items-center gap-2">
+          <span className="font-semibold text-gray-300">Rounds</span>
+          <select
+            value={roundCount}
+            onChange={e => setRoundCount(Number(e.target.value))}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+          >
+            {ROUND_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+        {setupError && <p className="text-sm text-red-400">{setupError}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={() => start()}
+            disabled={types.length === 0}
+            className="px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Shortcut: Enter"
+          >
+            Start
+          </button>
+          <button onClick={onExit} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold">
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    const missed = answers.filter(a => !a.isCorrect);
+    const score = scoreQuiz(answers);
+    return (
+      <div className="max-w-lg mx-auto bg-gray-800 rounded-lg shadow-lg p-6 space-y-4">
+        <h2 className="text-2xl font-bold text-center">Quiz complete</h2>
+        <p className={`text-5xl font-bold text-center ${score >= 80 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400'}`}>{score}%</p>
+        <p className="text-center text-gray-400">{answers.length - missed.length} of {answers.length} correct</p>
+        <ol className="space-y-1 text-sm">
+          {answers.map((a, i) => (
+            <li key={i} className="flex justify-between gap-4">
+              <span>{a.round.card.text}</span>
+              <span className={a.isCorrect ? 'text-green-400' : 'text-red-400'}>
+                {a.isCorrect ? 'Correct' : a.round.type === 'spelling' ? `You typed "${a.given}"` : 'Missed'}
+              </span>
+            </li>
+          ))}
+        </ol>
+        <div className="flex flex-wrap gap-2 justify-center">
+          {missed.length > 0 && (
+            <button
+              onClick={() => start(missed.map(a => a.round.card))}
+              className="px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold"
+            >
+              Retry Missed
+            </button>
+          )}
+          <button onClick={() => start()} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold">
+            New Quiz
+          </button>
+          <button onClick={onExit} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold">
+            Back to Deck
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shownRound) return null;
+  const { type, card, options } = shownRound;
+
+  const optionClasses = (option: FlashcardItem) => {
+    if (!feedback) return 'border-gray-600 hover:border-purple-500';
+    if (option.id === card.id) return 'border-green-500';
+    return option.id === feedback.given ? 'border-red-500' : 'border-gray-700 opacity-50';
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex justify-between items-center text-sm text-gray-400 mb-3">
+        <span>Round {Math.min(index + (feedback ? 0 : 1), rounds.length)} of {rounds.length} · {answers.filter(a => a.isCorrect).length} correct</span>
+        <button onClick={onExit} className="hover:text-white underline" title="Shortcut: Esc">End quiz</button>
+      </div>
+      <div className="bg-gray-800 rounded-lg shadow-lg p-6 space-y-4">
+        {type === 'picture-to-word' ? (
+          <img src={card.imageUrl ?? ''} alt="Which card is this?" className="w-64 h-64 mx-auto object-cover rounded-lg" />
+        ) : (
+          <button
+            onClick={() => play(card)}
+            className="block mx-auto px-6 py-3 bg-cyan-600 hover:bg-cyan-700 rounded-full text-white font-semibold"
+            title="Shortcut: Space"
+          >
+            Play Again
+          </button>
+        )}
+
+        {type === 'spelling' ? (
+          <form onSubmit={e => { e.preventDefault(); if (typed.trim()) answer(typed); }} className="space-y-2">
+            <input
+              ref={spellingInputRef}
+              type="text"
+              lang={normalizationFor?.(card).locale}
+              value={typed}
+              onChange={e => setTyped(e.target.value)}
+              disabled={!!feedback}
+              placeholder="Type what you hear, then press Enter"
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-lg focus:ring-purple-500 focus:border-purple-500"
+              aria-label="Your spelling"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <p className="text-xs text-gray-500">Ctrl+Space plays the audio again.</p>
+          </form>
+        ) : (
+          <div className={`grid gap-3 ${type === 'listen-pick-image' ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2'}`}>
+            {options.map((option, i) => (
+              <button
+                key={option.id}
+                onClick={() => answer(option.id)}
+                disabled={!!feedback}
+                className={`relative border-4 rounded-lg overflow-hidden bg-gray-700 text-left ${optionClasses(option)}`}
+              >
+                <span className="absolute top-1 left-1 px-2 bg-gray-900/70 rounded text-sm font-bold">{i + 1}</span>
+                {type === 'listen-pick-image' ? (
+                  <img src={option.thumbnailUrl || option.imageUrl || ''} alt={`Option ${i + 1}`} className="w-full aspect-square object-cover" />
+                ) : (
+                  <span className="block px-4 py-3 pl-10 text-lg font-semibold">{option.text}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {feedback && (
+          <div className="flex items-center justify-between gap-4">
+            <p className={feedback.isCorrect ? 'text-green-400 font-semibold' : 'text-red-400 font-semibold'}>
+              {feedback.isCorrect ? 'Correct!' : `The answer was "${card.text}".`}
+            </p>
+            <button
+              onClick={next}
+              className="px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold"
+              title="Shortcut: Enter"
+              autoFocus
+            >
+              {index >= rounds.length ? 'See Results' : 'Next'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizSession;
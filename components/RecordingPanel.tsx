@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FlashcardItem } from '../types';
+import { ActiveRecording, isRecordingSupported, startRecording } from '../services/recordingService';
+import Waveform from './Waveform';
+
+interface RecordingPanelProps {
+  card: FlashcardItem;
+  onSave: (id: string, blob: Blob, durationMs: number) => void;
+  onDelete: (id: string, recordingId: string) => void;
+  // Replaces the card's audio with a take. Hidden when left out.
+  onUseAsReference?: (id: string, recordingId: string) => void;
+}
+
+// Takes longer than this are stopped automatically.
+const MAX_RECORDING_MS = 30_000;
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ card, onSave, onDelete, onUseAsReference }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+
+  const recordings = card.recordings ?? [];
+  const selected = recordings.find(r => r.id === selectedId) ?? recordings[recordings.length - 1];
+
+  useEffect(() => () => recordingRef.current?.cancel(), []);
+
+  const stop = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setIsRecording(false);
+    try {
+      const { blob, durationMs } = await recording.stop();
+      setSelectedId(null); // Show the new take.
+      onSave(card.id, blob, durationMs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Recording failed.');
+    }
+  };
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (elapsed >= MAX_RECORDING_MS) stop();
+    }, 100);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const start = async () => {
+    setError(null);
+    setElapsedMs(0);
+    try {
+      recordingRef.current = await startRecording();
+      setIsRecording(true);
+    } catch (err) {
+      const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+      setError(denied ? 'Microphone access denied. Please enable it in browser settings.' : err instanceof Error ? err.message : 'Could not start recording.');
+    }
+  };
+
+  const handleUseAsReference = () => {
+    if (!selected || !onUseAsReference) return;
+    if (!card.audioUrl || window.confirm('Replace this card\'s audio with your recording?')) {
+      onUseAsReference(card.id, selected.id);
+    }
+  };
+
+  if (!isRecordingSupported) {
+    return <p className="text-sm text-gray-500 mt-3">Recording is not supported in this browser.</p>;
+  }
+
+  return (
+    <div className="mt-3 space-y-3" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={isRecording ? stop : start}
+          className={`flex-1 px-4 py-2 text-sm font-semibold text-white rounded-md transition-colors ${isRecording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-rose-700 hover:bg-rose-600'}`}
+        >
+          {isRecording ? `Stop (${formatDuration(elapsedMs)})` : recordings.length > 0 ? 'Record Again' : 'Record Yourself'}
+        </button>
+        {recordings.length > 1 && (
+          <select
+            value={selected?.id}
+            onChange={e => setSelectedId(e.target.value)}
+            className="px-2 py-2 text-sm bg-gray-700 border border-gray-600 rounded-md text-white"
+            aria-label="Recording"
+          >
+            {recordings.map((recording, i) => (
+              <option key={recording.id} value={recording.id}>
+                Take {i + 1} · {new Date(recording.createdAt).toLocaleTimeString()}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {selected && (
+        <>
+          <div className="flex flex-col sm:flex-row gap-4">
+            {card.audioUrl && <Waveform url={card.audioUrl} label="Reference" colorClass="fill-cyan-400" />}
+            <Waveform key={selected.id} url={selected.url} label={`Your take (${formatDuration(selected.durationMs)})`} colorClass="fill-rose-400" />
+          </div>
+          <div className="flex gap-2">
+            {onUseAsReference && (
+              <button
+                onClick={handleUseAsReference}
+                className="flex-1 px-3 py-1.5 text-xs font-semibold text-white rounded-md bg-gray-600 hover:bg-gray-500"
+              >
+                Use as Reference Audio
+              </button>
+            )}
+            <button
+              onClick={() => onDelete(card.id, selected.id)}
+              className="px-3 py-1.5 text-xs font-semibold text-white rounded-md bg-gray-600 hover:bg-red-700"
+            >
+              Delete Take
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecordingPanel;
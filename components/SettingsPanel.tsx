@@ -0,0 +1,284 @@
+import React from 'react';
+import type { AppSettings, ImageOutputFormat, ImageProcessingOptions, ImageProviderId, TtsProviderId } from '../types';
+import { IMAGE_FORMAT_OPTIONS } from '../services/imageProcessingService';
+import { IMAGE_PROVIDER_OPTIONS } from '../services/imageProviderService';
+import { TTS_PROVIDER_OPTIONS } from '../services/ttsProviderService';
+import StylePresetEditor from './StylePresetEditor';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const updateImageProcessing = (changes: Partial<ImageProcessingOptions>) => {
+    update('imageProcessing', { ...settings.imageProcessing, ...changes });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="settings-title"
+    >
+      <div
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-gray-800 rounded-lg shadow-lg p-6 text-left"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="settings-title" className="text-2xl font-bold">Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-white"
+            aria-label="Close settings"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="image-provider" className="block font-semibold text-gray-300 mb-1">Image provider</label>
+            <select
+              id="image-provider"
+              value={settings.imageProvider}
+              onChange={e => update('imageProvider', e.target.value as ImageProviderId)}
+              className={inputClasses}
+            >
+              {IMAGE_PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {settings.imageProvider === 'gemini' && (
+            <>
+              <div>
+                <label htmlFor="gemini-proxy-url" className="block font-semibold text-gray-300 mb-1">Proxy URL (optional)</label>
+                <input
+                  id="gemini-proxy-url"
+                  type="url"
+                  value={settings.geminiProxyUrl}
+                  onChange={e => update('geminiProxyUrl', e.target.value.trim())}
+                  placeholder="http://localhost:8787"
+                  className={inputClasses}
+                />
+              </div>
+              {!settings.geminiProxyUrl && (
+                <div>
+                  <label htmlFor="gemini-api-key" className="block font-semibold text-gray-300 mb-1">Gemini API key</label>
+                  <input
+                    id="gemini-api-key"
+                    type="password"
+                    value={settings.geminiApiKey}
+                    onChange={e => update('geminiApiKey', e.target.value)}
+                    placeholder="Paste your API key"
+                    className={inputClasses}
+                  />
+                  <p className="text-xs text-gray-400 mt-1">Saved only in this browser's local storage.</p>
+                </div>
+              )}
+            </>
+          )}
+
+          {settings.imageProvider === 'openai' && (
+            <>
+              <div>
+                <label htmlFor="openai-base-url" className="block font-semibold text-gray-300 mb-1">Base URL</label>
+                <input
+                  id="openai-base-url"
+                  type="url"
+                  value={settings.openAiBaseUrl}
+                  onChange={e => update('openAiBaseUrl', e.target.value)}
+                  placeholder="http://localhost:8080/v1"
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label htmlFor="openai-api-key" className="block font-semibold text-gray-300 mb-1">API key (optional)</label>
+                <input
+                  id="openai-api-key"
+                  type="password"
+                  value={settings.openAiApiKey}
+                  onChange={e => update('openAiApiKey', e.target.value)}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label htmlFor="openai-model" className="block font-semibold text-gray-300 mb-1">Model (optional)</label>
+                <input
+                  id="openai-model"
+                  type="text"
+                  value={settings.openAiModel}
+                  onChange={e => update('openAiModel', e.target.value)}
+                  placeholder="dall-e-3"
+                  className={inputClasses}
+                />
+              </div>
+            </>
+          )}
+
+          {settings.imageProvider === 'placeholder' && (
+            <p className="text-sm text-gray-400">
+              Renders the card text into a colored image. Works offline and needs no API key.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="generation-concurrency" className="block font-semibold text-gray-300 mb-1">Parallel requests</label>
+              <input
+                id="generation-concurrency"
+                type="number"
+                min={1}
+                max={8}
+                value={settings.generationConcurrency}
+                onChange={e => update('generationConcurrency', Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label htmlFor="generation-retries" className="block font-semibold text-gray-300 mb-1">Retries on 429/5xx</label>
+              <input
+                id="generation-retries"
+                type="number"
+                min={0}
+                max={10}
+                value={settings.generationMaxRetries}
+                onChange={e => update('generationMaxRetries', Math.min(10, Math.max(0, Number(e.target.value) || 0)))}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-gray-300 mb-2">Image compression</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="image-max-dimension" className="block text-sm text-gray-400 mb-1">Max size (px)</label>
+                <input
+                  id="image-max-dimension"
+                  type="number"
+                  min={256}
+                  max={4096}
+                  step={64}
+                  value={settings.imageProcessing.maxDimension}
+                  onChange={e => updateImageProcessing({ maxDimension: Math.min(4096, Math.max(256, Number(e.target.value) || 1024)) })}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label htmlFor="image-format" className="block text-sm text-gray-400 mb-1">Format</label>
+                <select
+                  id="image-format"
+                  value={settings.imageProcessing.format}
+                  onChange={e => updateImageProcessing({ format: e.target.value as ImageOutputFormat })}
+                  className={inputClasses}
+                >
+                  {IMAGE_FORMAT_OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="image-quality" className="block text-sm text-gray-400 mb-1">Quality (%)</label>
+                <input
+                  id="image-quality"
+                  type="number"
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={Math.round(settings.imageProcessing.quality * 100)}
+                  onChange={e => updateImageProcessing({ quality: Math.min(100, Math.max(10, Number(e.target.value) || 80)) / 100 })}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              Applied to new generated and uploaded images. Browsers that can't encode AVIF use WebP instead.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="tts-provider" className="block font-semibold text-gray-300 mb-1">Text-to-speech</label>
+            <select
+              id="tts-provider"
+              value={settings.ttsProvider}
+              onChange={e => update('ttsProvider', e.target.value as TtsProviderId)}
+              className={inputClasses}
+            >
+              {TTS_PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            {settings.ttsProvider === 'web-speech' && (
+              <p className="text-sm text-gray-400 mt-1">
+                Cards without audio are read aloud by the browser. Choose a server to generate audio files that can be saved and exported.
+              </p>
+            )}
+          </div>
+
+          {settings.ttsProvider === 'server' && (
+            <>
+              <div>
+                <label htmlFor="tts-server-url" className="block font-semibold text-gray-300 mb-1">Speech base URL</label>
+                <input
+                  id="tts-server-url"
+                  type="url"
+                  value={settings.ttsServerUrl}
+                  onChange={e => update('ttsServerUrl', e.target.value)}
+                  placeholder="http://localhost:8080/v1"
+                  className={inputClasses}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="tts-server-api-key" className="block font-semibold text-gray-300 mb-1">API key (optional)</label>
+                  <input
+                    id="tts-server-api-key"
+                    type="password"
+                    value={settings.ttsServerApiKey}
+                    onChange={e => update('ttsServerApiKey', e.target.value)}
+                    className={inputClasses}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="tts-server-model" className="block font-semibold text-gray-300 mb-1">Model</label>
+                  <input
+                    id="tts-server-model"
+                    type="text"
+                    value={settings.ttsServerModel}
+                    onChange={e => update('ttsServerModel', e.target.value)}
+                    placeholder="tts-1"
+                    className={inputClasses}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <h3 className="font-semibold text-gray-300 mb-2">Style presets</h3>
+            <StylePresetEditor
+              presets={settings.stylePresets}
+              onChange={presets => update('stylePresets', presets)}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
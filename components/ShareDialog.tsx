@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import type { Deck } from '../types';
+import { MAX_SHARE_URL_LENGTH, buildShareUrl, countLocalMediaCards } from '../services/shareService';
+
+interface ShareDialogProps {
+  deck: Deck;
+  // Starting value for the "hide text" default, taken from the teacher's own view.
+  isTextHidden: boolean;
+  onClose: () => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ deck, isTextHidden, onClose }) => {
+  const [hideText, setHideText] = useState(isTextHidden);
+  const [bundleUrl, setBundleUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const trimmedBundleUrl = bundleUrl.trim();
+  const isBundleUrlValid = !trimmedBundleUrl || /^https?:\/\/\S+$/i.test(trimmedBundleUrl);
+  const shareUrl = useMemo(
+    () => buildShareUrl(deck, { hideText, bundleUrl: isBundleUrlValid ? trimmedBundleUrl : undefined }),
+    [deck, hideText, trimmedBundleUrl, isBundleUrlValid],
+  );
+  const localMediaCount = countLocalMediaCards(deck);
+  const isTooLong = !trimmedBundleUrl && shareUrl.length > MAX_SHARE_URL_LENGTH;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-dialog-title"
+    >
+      <div
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg bg-gray-800 rounded-lg shadow-lg p-6 text-left space-y-4"
+      >
+        <h2 id="share-dialog-title" className="text-2xl font-bold">Share "{deck.name}"</h2>
+        <p className="text-sm text-gray-400">
+          The link opens the deck in a read-only student view with audio, practice, study and quiz.
+          Students get their own copy; nothing they do changes yours.
+        </p>
+        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={hideText} onChange={e => setHideText(e.target.checked)} className="h-4 w-4" />
+          Start with card text hidden
+        </label>
+        <div>
+          <label htmlFor="share-bundle-url" className="block font-semibold text-gray-300 mb-1">Hosted deck file (optional)</label>
+          <input
+            id="share-bundle-url"
+            type="url"
+            value={bundleUrl}
+            onChange={e => setBundleUrl(e.target.value)}
+            placeholder="https://example.com/my-deck.zip"
+            className={inputClasses}
+          />
+          {!isBundleUrlValid ? (
+            <p className="mt-1 text-sm text-red-400">Enter an http(s) URL.</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">
+              Export the deck, upload the file somewhere students can reach, and paste its URL to share that instead.
+            </p>
+          )}
+        </div>
+        {!trimmedBundleUrl && localMediaCount > 0 && (
+          <p className="text-sm text-yellow-400">
+            {localMediaCount} {localMediaCount === 1 ? 'card has' : 'cards have'} audio or images stored only in this browser,
+            which the link can't carry. Share a hosted ZIP export to include them.
+          </p>
+        )}
+        {isTooLong && (
+          <p className="text-sm text-yellow-400">
+            This deck makes a very long link that some apps will cut off. Share a hosted deck file instead.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <input type="text" value={shareUrl} readOnly onFocus={e => e.target.select()} className={inputClasses} aria-label="Share link" />
+          <button
+            onClick={handleCopy}
+            disabled={!isBundleUrlValid}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {copied ? 'Copied!' : 'Copy Link'}
+          </button>
+        </div>
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg font-semibold">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import type { FlashcardItem } from '../types';
+import { RECENT_ATTEMPTS, computeCardStats, findHardestCards } from '../services/statsService';
+
+interface StatsDashboardProps {
+  cards: FlashcardItem[];
+  onCardClick: (id: string) => void;
+}
+
+const scoreClass = (score: number) =>
+  score >= 80 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+const Sparkline: React.FC<{ scores: number[] }> = ({ scores }) => {
+  const width = 100;
+  const height = 24;
+  if (scores.length < 2) {
+    return <span className="text-gray-500 text-xs">—</span>;
+  }
+  const points = scores
+    .map((score, i) => `${(i / (scores.length - 1)) * width},${height - (score / 100) * height}`)
+    .join(' ');
+  const rising = scores[scores.length - 1] >= scores[0];
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-label={`Scores: ${scores.join(', ')}`}>
+      <polyline points={points} fill="none" stroke={rising ? '#4ade80' : '#f87171'} strokeWidth={2} />
+    </svg>
+  );
+};
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ cards, onCardClick }) => {
+  const stats = useMemo(() => computeCardStats(cards), [cards]);
+  const hardest = useMemo(() => findHardestCards(stats), [stats]);
+
+  if (stats.length === 0) {
+    return (
+      <div className="text-center text-gray-500 mt-10">
+        <p>No practice attempts yet. Use "Practice Pronunciation" on a card to start tracking progress.</p>
+      </div>
+    );
+  }
+
+  const totalAttempts = stats.reduce((sum, entry) => sum + entry.attempts, 0);
+  const overallAverage = Math.round(
+    stats.reduce((sum, entry) => sum + entry.averageScore * entry.attempts, 0) / totalAttempts
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-gray-800 rounded-lg shadow-lg p-4 text-center">
+          <p className="text-gray-400 text-sm">Attempts</p>
+          <p className="text-3xl font-bold">{totalAttempts}</p>
+        </div>
+        <div className="bg-gray-800 rounded-lg shadow-lg p-4 text-center">
+          <p className="text-gray-400 text-sm">Cards practiced</p>
+          <p className="text-3xl font-bold">{stats.length} / {cards.length}</p>
+        </div>
+        <div className="bg-gray-800 rounded-lg shadow-lg p-4 text-center">
+          <p className="text-gray-400 text-sm">Average score</p>
+          <p className={`text-3xl font-bold ${scoreClass(overallAverage)}`}>{overallAverage}%</p>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold mb-1">Hardest cards</h2>
+        <p className="text-gray-400 text-sm mb-3">By average score over the last {RECENT_ATTEMPTS} attempts.</p>
+        <ol className="space-y-1">
+          {hardest.map(entry => (
+            <li key={entry.cardId} className="flex justify-between gap-4">
+              <button onClick={() => onCardClick(entry.cardId)} className="text-left hover:underline">
+                {entry.text}
+              </button>
+              <span className={scoreClass(entry.recentScore)}>{entry.recentScore}%</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="bg-gray-800 rounded-lg shadow-lg p-4 overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="py-2 pr-4">Card</th>
+              <th className="py-2 pr-4">Attempts</th>
+              <th className="py-2 pr-4">Best</th>
+              <th className="py-2 pr-4">Latest</th>
+              <th className="py-2 pr-4">Average</th>
+              <th className="py-2">Trend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(entry => (
+              <tr key={entry.cardId} className="border-t border-gray-700">
+                <td className="py-2 pr-4">
+                  <button onClick={() => onCardClick(entry.cardId)} className="text-left hover:underline">
+                    {entry.text}
+                  </button>
+                </td>
+                <td className="py-2 pr-4">{entry.attempts}</td>
+                <td className={`py-2 pr-4 ${scoreClass(entry.bestScore)}`}>{entry.bestScore}%</td>
+                <td className={`py-2 pr-4 ${scoreClass(entry.latestScore)}`}>{entry.latestScore}%</td>
+                <td className={`py-2 pr-4 ${scoreClass(entry.averageScore)}`}>{entry.averageScore}%</td>
+                <td className="py-2"><Sparkline scores={entry.scores} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
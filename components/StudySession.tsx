@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { FlashcardItem, ReviewGrade } from '../types';
+import { buildDueQueue, reviewCard } from '../services/schedulerService';
+
+interface StudySessionProps {
+  cards: FlashcardItem[];
+  onGrade: (id: string, grade: ReviewGrade) => void;
+  onExit: () => void;
+  // Reads out cards that have no recording.
+  onSpeak?: (id: string) => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; key: string; classes: string }[] = [
+  { grade: 'again', label: 'Again', key: '1', classes: 'bg-red-600 hover:bg-red-700' },
+  { grade: 'hard', label: 'Hard', key: '2', classes: 'bg-yellow-600 hover:bg-yellow-700' },
+  { grade: 'good', label: 'Good', key: '3', classes: 'bg-green-600 hover:bg-green-700' },
+  { grade: 'easy', label: 'Easy', key: '4', classes: 'bg-cyan-600 hover:bg-cyan-700' },
+];
+
+const formatInterval = (days: number): string => {
+  if (days === 0) return '<10m';
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+const StudySession: React.FC<StudySessionProps> = ({ cards, onGrade, onExit, onSpeak }) => {
+  // The queue is fixed when the session starts; "Again" sends a card to the back.
+  const [queue, setQueue] = useState<string[]>(() => buildDueQueue(cards).map(card => card.id));
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const current = cards.find(card => card.id === queue[0]) ?? null;
+
+  // Keyed on the review count too, so a card graded "Again" that comes straight
+  // back (the last one left) plays again like any other card.
+  useEffect(() => {
+    if (current && !current.audioUrl) {
+      onSpeak?.(current.id);
+      return;
+    }
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = 0;
+    audio.play().catch(() => {
+      // Autoplay can be blocked until the user interacts with the page.
+    });
+  }, [current?.id, reviewedCount]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    onGrade(current.id, grade);
+    setQueue(prev => (grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+    setIsRevealed(false);
+    setReviewedCount(count => count + 1);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onExit();
+      } else if (!isRevealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setIsRevealed(true);
+      } else if (isRevealed) {
+        const match = GRADES.find(g => g.key === e.key);
+        if (match) handleGrade(match.grade);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!current) {
+    return (
+      <div className="max-w-lg mx-auto bg-gray-800 rounded-lg shadow-lg p-8 text-center">
+        <h2 className="text-2xl font-bold mb-2">All done for today!</h2>
+        <p className="text-gray-400 mb-6">
+          {reviewedCount > 0 ? `You reviewed ${reviewedCount} cards.` : 'No cards are due right now.'}
+        </p>
+        <button
+          onClick={onExit}
+          className="px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-semibold shadow-lg"
+        >
+          Back to Deck
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto">
+      <div className="flex justify-between items-center text-sm text-gray-400 mb-3">
+        <span>{queue.length} remaining · {reviewedCount} reviewed</span>
+        <button onClick={onExit} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-semibold">
+          End Session
+        </button>
+      </div>
+      <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+        <div className="relative aspect-square w-full bg-gray-700 flex items-center justify-center">
+          {isRevealed && current.imageUrl ? (
+            <img src={current.imageUrl} alt={current.text} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-6xl text-gray-500 select-none">?</span>
+          )}
+        </div>
+        <div className="p-4">
+          <h3 className={`font-bold text-2xl mb-3 min-h-[1.5em] text-center ${isRevealed ? 'text-white' : 'text-transparent'}`}>
+            {isRevealed ? current.text : '…'}
+          </h3>
+          {current.audioUrl ? (
+            <audio ref={audioRef} controls src={current.audioUrl} className="w-full h-10 mb-4 rounded-lg">
+              Your browser does not support the audio element.
+            </audio>
+          ) : (
+            <button
+              onClick={() => onSpeak?.(current.id)}
+              className="w-full px-4 py-2 mb-4 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold"
+            >
+              Speak
+            </button>
+          )}
+          {isRevealed ? (
+            <div className="grid grid-cols-4 gap-2">
+              {GRADES.map(({ grade, label, key, classes }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`px-2 py-2 rounded-md text-white font-semibold ${classes}`}
+                  title={`Shortcut: ${key}`}
+                >
+                  <span className="block">{label}</span>
+                  <span className="block text-xs opacity-75">{formatInterval(reviewCard(current.schedule, grade).interval)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="w-full px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold"
+              title="Shortcut: Space"
+            >
+              Show Answer
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudySession;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import type { AspectRatio, ImageMimeType, StylePreset } from '../types';
+import { ASPECT_RATIOS, DEFAULT_STYLE_PRESETS } from '../constants';
+
+interface StylePresetEditorProps {
+  presets: StylePreset[];
+  onChange: (presets: StylePreset[]) => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const StylePresetEditor: React.FC<StylePresetEditorProps> = ({ presets, onChange }) => {
+  const [selectedId, setSelectedId] = useState(presets[0]?.id ?? '');
+  const selected = presets.find(preset => preset.id === selectedId) ?? presets[0];
+
+  const updateSelected = <K extends keyof StylePreset>(key: K, value: StylePreset[K]) => {
+    onChange(presets.map(preset => (preset.id === selected.id ? { ...preset, [key]: value } : preset)));
+  };
+
+  const handleAdd = () => {
+    const preset: StylePreset = {
+      id: crypto.randomUUID(),
+      name: 'New style',
+      template: 'An illustration of {text}',
+      negativePrompt: '',
+      aspectRatio: '1:1',
+      outputMimeType: 'image/jpeg',
+    };
+    onChange([...presets, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const handleDelete = () => {
+    if (presets.length <= 1) return;
+    const remaining = presets.filter(preset => preset.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Replace all style presets with the built-in defaults?')) {
+      onChange(DEFAULT_STYLE_PRESETS);
+      setSelectedId(DEFAULT_STYLE_PRESETS[0].id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={selected?.id ?? ''}
+          onChange={e => setSelectedId(e.target.value)}
+          className={inputClasses}
+          aria-label="Style preset"
+        >
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <button onClick={handleAdd} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-sm font-semibold">
+          Add
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={presets.length <= 1}
+          className="px-3 py-1 bg-red-700 hover:bg-red-800 rounded-md text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete
+        </button>
+      </div>
+
+      {selected && (
+        <>
+          <input
+            type="text"
+            value={selected.name}
+            onChange={e => updateSelected('name', e.target.value)}
+            className={inputClasses}
+            aria-label="Preset name"
+          />
+          <textarea
+            value={selected.template}
+            onChange={e => updateSelected('template', e.target.value)}
+            rows={3}
+            className={inputClasses}
+            aria-label="Prompt template"
+          />
+          <p className="text-xs text-gray-400">Use <code>{'{text}'}</code> where the card text or prompt should go.</p>
+          <input
+            type="text"
+            value={selected.negativePrompt}
+            onChange={e => updateSelected('negativePrompt', e.target.value)}
+            placeholder="Negative prompt (optional)"
+            className={inputClasses}
+            aria-label="Negative prompt"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={selected.aspectRatio}
+              onChange={e => updateSelected('aspectRatio', e.target.value as AspectRatio)}
+              className={inputClasses}
+              aria-label="Aspect ratio"
+            >
+              {ASPECT_RATIOS.map(ratio => (
+                <option key={ratio} value={ratio}>{ratio}</option>
+              ))}
+            </select>
+            <select
+              value={selected.outputMimeType}
+              onChange={e => updateSelected('outputMimeType', e.target.value as ImageMimeType)}
+              className={inputClasses}
+              aria-label="Image format"
+            >
+              <option value="image/jpeg">JPEG</option>
+              <option value="image/png">PNG</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      <button onClick={handleReset} className="text-xs text-gray-400 hover:text-white underline">
+        Reset to built-in presets
+      </button>
+    </div>
+  );
+};
+
+export default StylePresetEditor;
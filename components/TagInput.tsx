@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags in the deck, offered as suggestions.
+  suggestions?: string[];
+}
+
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions = [] }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = value.trim().replace(/;/g, '');
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg focus-within:ring-1 focus-within:ring-purple-500">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-xs bg-purple-700 rounded-full">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            className="hover:text-gray-300"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+        list="tag-suggestions"
+        placeholder={tags.length === 0 ? 'Add tags…' : ''}
+        className="flex-grow min-w-[6rem] py-1 bg-transparent text-sm text-white focus:outline-none"
+        aria-label="Add tag"
+      />
+      <datalist id="tag-suggestions">
+        {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,88 @@
+import React, { useEffect, useId, useState } from 'react';
+import type { TtsProviderId, TtsVoiceSettings } from '../types';
+import { loadSpeechVoices } from '../services/webSpeechTtsService';
+
+interface VoiceSettingsEditorProps {
+  value: TtsVoiceSettings;
+  onChange: (value: TtsVoiceSettings) => void;
+  providerId: TtsProviderId;
+}
+
+const inputClasses = 'w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-purple-500 focus:border-purple-500';
+
+const ACCENTS = ['en-US', 'en-GB', 'en-AU', 'en-IN', 'en-CA', 'en-IE', 'en-ZA'];
+
+const VoiceSettingsEditor: React.FC<VoiceSettingsEditorProps> = ({ value, onChange, providerId }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  // The library renders one editor per deck, so the datalist id must be unique.
+  const accentListId = useId();
+
+  useEffect(() => {
+    if (providerId === 'web-speech') {
+      loadSpeechVoices().then(setVoices);
+    }
+  }, [providerId]);
+
+  const update = <K extends keyof TtsVoiceSettings>(key: K, next: TtsVoiceSettings[K]) => {
+    onChange({ ...value, [key]: next });
+  };
+
+  // Only offer voices for the chosen language, e.g. every "en-GB" voice.
+  const language = value.accent.split('-')[0].toLowerCase();
+  const matchingVoices = voices.filter(voice => voice.lang.toLowerCase().startsWith(language));
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          list={accentListId}
+          value={value.accent}
+          onChange={e => update('accent', e.target.value)}
+          placeholder="en-US"
+          className={inputClasses}
+          aria-label="Accent"
+        />
+        <datalist id={accentListId}>
+          {ACCENTS.map(accent => <option key={accent} value={accent} />)}
+        </datalist>
+        {providerId === 'web-speech' ? (
+          <select
+            value={value.voiceName}
+            onChange={e => update('voiceName', e.target.value)}
+            className={inputClasses}
+            aria-label="Voice"
+          >
+            <option value="">Default voice</option>
+            {matchingVoices.map(voice => (
+              <option key={voice.name} value={voice.name}>{voice.name} ({voice.lang})</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={value.voiceName}
+            onChange={e => update('voiceName', e.target.value)}
+            placeholder="Voice, e.g. alloy"
+            className={inputClasses}
+            aria-label="Voice"
+          />
+        )}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <span className="whitespace-nowrap">Rate {value.rate.toFixed(2)}×</span>
+        <input
+          type="range"
+          min={0.5}
+          max={1.5}
+          step={0.05}
+          value={value.rate}
+          onChange={e => update('rate', Number(e.target.value))}
+          className="w-full"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default VoiceSettingsEditor;
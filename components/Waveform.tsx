@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { computeWaveform } from '../services/recordingService';
+
+interface WaveformProps {
+  url: string;
+  label: string;
+  // Tailwind fill class for the played part, e.g. "fill-cyan-400".
+  colorClass: string;
+}
+
+const BARS = 48;
+
+// A clip's waveform with a play/pause button; click a bar to seek there.
+const Waveform: React.FC<WaveformProps> = ({ url, label, colorClass }) => {
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setPeaks(null);
+    setLoadError(false);
+    computeWaveform(url, BARS)
+      .then(result => { if (!isCancelled) setPeaks(result); })
+      .catch(err => {
+        // Cross-origin audio without CORS headers can play but not be decoded.
+        console.warn(`Could not draw the waveform for ${url}:`, err);
+        if (!isCancelled) setLoadError(true);
+      });
+
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    audio.ontimeupdate = () => setProgress(audio.duration ? audio.currentTime / audio.duration : 0);
+    audio.onplay = () => setIsPlaying(true);
+    audio.onpause = () => setIsPlaying(false);
+    audio.onended = () => { setIsPlaying(false); setProgress(0); };
+    return () => {
+      isCancelled = true;
+      audio.pause();
+      audioRef.current = null;
+    };
+  }, [url]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(err => console.error('Playback failed:', err));
+    else audio.pause();
+  };
+
+  const seek = (fraction: number) => {
+    const audio = audioRef.current;
+    if (!audio || !audio.duration) return;
+    audio.currentTime = fraction * audio.duration;
+    setProgress(fraction);
+  };
+
+  const bars = peaks ?? Array(BARS).fill(0.05);
+
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-semibold text-gray-400 mb-1">{label}</p>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={togglePlay}
+          className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-600 hover:bg-gray-500 text-white text-sm"
+          aria-label={`${isPlaying ? 'Pause' : 'Play'} ${label.toLowerCase()}`}
+        >
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        {loadError ? (
+          <span className="text-xs text-gray-500">Waveform unavailable</span>
+        ) : (
+          <svg viewBox={`0 0 ${BARS} 20`} preserveAspectRatio="none" className="w-full h-10" role="img" aria-label={`${label} waveform`}>
+            {bars.map((peak, i) => {
+              const height = Math.max(1, peak * 20);
+              return (
+                <rect
+                  key={i}
+                  x={i + 0.15}
+                  y={(20 - height) / 2}
+                  width={0.7}
+                  height={height}
+                  className={`cursor-pointer ${i / BARS < progress ? colorClass : 'fill-gray-500'}`}
+                  onClick={() => seek(i / BARS)}
+                />
+              );
+            })}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Waveform;
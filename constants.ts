@@ -1,3 +1,52 @@
+import type { AspectRatio, StylePreset } from './types';
+
+export const DEFAULT_DECK_NAME = 'flashcard_unit2';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const DEFAULT_STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'cartoon',
+    name: 'Cartoon',
+    template: "A simple, cute, cartoon-style illustration for a children's flashcard, with a clean, solid light-colored background. The image should clearly and simply depict: {text}",
+    negativePrompt: '',
+    aspectRatio: '1:1',
+    outputMimeType: 'image/jpeg',
+  },
+  {
+    id: 'photo',
+    name: 'Photo-realistic',
+    template: 'A high-quality, natural-light photograph clearly showing: {text}. Realistic detail, uncluttered background.',
+    negativePrompt: 'text, watermark, cartoon, illustration',
+    aspectRatio: '1:1',
+    outputMimeType: 'image/jpeg',
+  },
+  {
+    id: 'line-art',
+    name: 'Line art',
+    template: 'A clean black-and-white line drawing on a white background depicting: {text}. Minimal shading, bold outlines.',
+    negativePrompt: 'color, text, watermark',
+    aspectRatio: '1:1',
+    outputMimeType: 'image/png',
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    template: 'A soft watercolor painting with gentle colors and a light paper background, depicting: {text}',
+    negativePrompt: 'text, watermark',
+    aspectRatio: '1:1',
+    outputMimeType: 'image/jpeg',
+  },
+  {
+    id: 'icon',
+    name: 'Icon',
+    template: 'A flat, minimal vector-style icon centered on a plain white background representing: {text}',
+    negativePrompt: 'text, photo, realistic, shadows',
+    aspectRatio: '1:1',
+    outputMimeType: 'image/png',
+  },
+];
+
 
 export const AUDIO_URLS: string[] = [
   "https://raw.githubusercontent.com/klamts/flashcard-library/main/decks/audio/flashcard_unit2/Antarctica.mp3",
@@ -0,0 +1,95 @@
+// Service worker: precaches the app shell and serves deck media cached by
+// services/offlineService.ts. The build replaces PRECACHE with the list of
+// emitted files (see precacheManifest in vite.config.ts), so each deploy gets
+// a new worker and a fresh shell cache.
+const PRECACHE = { version: 'dev', files: [] };
+
+const SHELL_CACHE = `flashcards-shell-${PRECACHE.version}`;
+// Shared with services/offlineService.ts.
+const MEDIA_CACHE = 'flashcards-media';
+// Loaded from a CDN by index.html; without it the cached app has no styles.
+const CDN_FILES = ['https://cdn.tailwindcss.com'];
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(['./', ...PRECACHE.files].map(scopeUrl));
+        await Promise.all(CDN_FILES.map(async url => {
+            try {
+                await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+            } catch (error) {
+                console.warn(`Could not precache ${url}:`, error);
+            }
+        }));
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names
+            .filter(name => name.startsWith('flashcards-shell-') && name !== SHELL_CACHE)
+            .map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// Audio elements ask for byte ranges; Safari won't play a plain 200 reply.
+async function withRange(request, response) {
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') ?? '');
+    if (!range || response.type === 'opaque') return response;
+    const blob = await response.blob();
+    const start = range[1] ? Number(range[1]) : Math.max(0, blob.size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), blob.size - 1) : blob.size - 1;
+    return new Response(blob.slice(start, end + 1), {
+        status: 206,
+        headers: {
+            'Content-Type': response.headers.get('Content-Type') ?? blob.type,
+            'Content-Length': String(end - start + 1),
+            'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+            'Accept-Ranges': 'bytes',
+        },
+    });
+}
+
+// Newest page when online so deploys show up; the cached shell when not.
+async function handleNavigation(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) await cache.put(scopeUrl('./'), response.clone());
+        return response;
+    } catch {
+        return (await cache.match(scopeUrl('./'))) ?? Response.error();
+    }
+}
+
+// Hashed assets never change, so the cache wins; anything new is added as it's fetched.
+async function handleShellAsset(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+    return response;
+}
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate' && request.url.startsWith(self.registration.scope)) {
+        event.respondWith(handleNavigation(request));
+    } else if (request.url.startsWith(self.registration.scope) || CDN_FILES.some(file => url.href.startsWith(file))) {
+        event.respondWith(handleShellAsset(request));
+    } else if (url.protocol === 'http:' || url.protocol === 'https:') {
+        event.respondWith((async () => {
+            const cached = await caches.match(request.url, { cacheName: MEDIA_CACHE });
+            return cached ? withRange(request, cached) : fetch(request);
+        })());
+    }
+});
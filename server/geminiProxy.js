@@ -0,0 +1,182 @@
+import http from "node:http";
+import { createRateLimiter } from "./rateLimiter.js";
+import { createResponseCache } from "./responseCache.js";
+
+export const DEFAULT_UPSTREAM_URL = 'https://generativelanguage.googleapis.com';
+const IMAGE_MODEL = 'imagen-3.0-generate-002';
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const MIME_TYPES = ['image/png', 'image/jpeg'];
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_PROMPT_LENGTH = 4000;
+
+/**
+ * @typedef {object} GeminiProxyOptions
+ * @property {string} apiKey Gemini API key; never sent to the browser.
+ * @property {string} [upstreamUrl] Where Gemini lives; point at the mock upstream for local runs.
+ * @property {number} [requestsPerMinute] Per-client limit for image requests.
+ * @property {number} [cacheEntries] Generated images kept in memory; 0 turns the cache off.
+ * @property {number} [cacheTtlMs]
+ * @property {string} [allowedOrigin] Value for Access-Control-Allow-Origin.
+ * @property {boolean} [trustForwardedFor] Identify clients by X-Forwarded-For (behind a reverse proxy).
+ */
+
+class HttpError extends Error {
+    constructor(status, message, headers = {}) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.headers = headers;
+    }
+}
+
+const readJson = (req) =>
+    new Promise((resolve, reject) => {
+        let size = 0;
+        let isTooLarge = false;
+        const chunks = [];
+        req.on('data', chunk => {
+            if (isTooLarge) return;
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                // Destroying the socket here would reach the client as a reset rather
+                // than the 413. Discard the rest of the body and close after replying.
+                isTooLarge = true;
+                chunks.length = 0;
+                reject(new HttpError(413, 'Request body is too large.', { Connection: 'close' }));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (isTooLarge) return;
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch {
+                reject(new HttpError(400, 'Request body must be JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+
+// Mirrors the app's ImageGenerationRequest, minus the fields only the browser needs.
+function parseImageRequest(body) {
+    const { prompt, negativePrompt, aspectRatio = '1:1', outputMimeType = 'image/png' } = body ?? {};
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+        throw new HttpError(400, '"prompt" is required.');
+    }
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+        throw new HttpError(400, `"prompt" must be at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (negativePrompt !== undefined && typeof negativePrompt !== 'string') {
+        throw new HttpError(400, '"negativePrompt" must be a string.');
+    }
+    if (!ASPECT_RATIOS.includes(aspectRatio)) {
+        throw new HttpError(400, `"aspectRatio" must be one of ${ASPECT_RATIOS.join(', ')}.`);
+    }
+    if (!MIME_TYPES.includes(outputMimeType)) {
+        throw new HttpError(400, `"outputMimeType" must be one of ${MIME_TYPES.join(', ')}.`);
+    }
+    // Imagen 3 rejects a separate negative prompt, so fold it in like the browser client does.
+    return {
+        prompt: negativePrompt ? `${prompt}\nAvoid: ${negativePrompt}` : prompt,
+        aspectRatio,
+        outputMimeType,
+    };
+}
+
+async function callImagen({ upstreamUrl, apiKey }, { prompt, aspectRatio, outputMimeType }) {
+    const response = await fetch(`${upstreamUrl.replace(/\/+$/, '')}/v1beta/models/${IMAGE_MODEL}:predict`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+            instances: [{ prompt }],
+            parameters: { sampleCount: 1, aspectRatio, outputOptions: { mimeType: outputMimeType } },
+        }),
+    });
+    if (!response.ok) {
+        const detail = await response.json().then(body => body?.error?.message, () => undefined);
+        // Keep 4xx/429 so the app knows not to retry (or to back off); anything
+        // else upstream is a bad gateway from the app's point of view.
+        const status = response.status < 500 ? response.status : 502;
+        throw new HttpError(status, `Gemini API Error: ${detail ?? `${response.status} ${response.statusText}`}`);
+    }
+    const result = await response.json();
+    const image = result.predictions?.[0];
+    if (!image?.bytesBase64Encoded) {
+        // Imagen returns no prediction when its safety filter drops the image.
+        throw new HttpError(422, 'No images were generated by the API.');
+    }
+    return `data:${image.mimeType || outputMimeType};base64,${image.bytesBase64Encoded}`;
+}
+
+/**
+ * Builds the proxy's HTTP server. Routes:
+ *   POST /api/images  { prompt, negativePrompt?, aspectRatio?, outputMimeType? } -> { imageUrl }
+ *   GET  /api/health  -> { ok, cachedImages }
+ *
+ * @param {GeminiProxyOptions} options
+ */
+export function createGeminiProxy({
+    apiKey,
+    upstreamUrl = DEFAULT_UPSTREAM_URL,
+    requestsPerMinute = 20,
+    cacheEntries = 100,
+    cacheTtlMs = 60 * 60 * 1000,
+    allowedOrigin = '*',
+    trustForwardedFor = false,
+}) {
+    const limiter = createRateLimiter({ requestsPerMinute });
+    const cache = createResponseCache({ maxEntries: cacheEntries, ttlMs: cacheTtlMs });
+
+    const clientIdOf = (req) => {
+        const forwarded = trustForwardedFor && req.headers['x-forwarded-for'];
+        return (typeof forwarded === 'string' && forwarded.split(',')[0].trim()) || req.socket.remoteAddress || 'unknown';
+    };
+
+    const send = (res, status, body, headers = {}) => {
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': allowedOrigin,
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type',
+            'Access-Control-Expose-Headers': 'Retry-After, X-Cache',
+            ...headers,
+        });
+        res.end(status === 204 ? undefined : JSON.stringify(body));
+    };
+
+    const generateImage = async (req, res) => {
+        const { allowed, retryAfterMs } = limiter.take(clientIdOf(req));
+        if (!allowed) {
+            throw new HttpError(429, 'Too many image requests. Try again shortly.', {
+                'Retry-After': String(Math.ceil(retryAfterMs / 1000)),
+            });
+        }
+        const request = parseImageRequest(await readJson(req));
+        const key = JSON.stringify([IMAGE_MODEL, request.prompt, request.aspectRatio, request.outputMimeType]);
+        const { value, hit } = await cache.getOrLoad(key, () => callImagen({ upstreamUrl, apiKey }, request));
+        send(res, 200, { imageUrl: value }, { 'X-Cache': hit ? 'HIT' : 'MISS' });
+    };
+
+    return http.createServer(async (req, res) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            if (req.method === 'OPTIONS') {
+                send(res, 204);
+            } else if (req.method === 'POST' && pathname === '/api/images') {
+                await generateImage(req, res);
+            } else if (req.method === 'GET' && pathname === '/api/health') {
+                send(res, 200, { ok: true, cachedImages: cache.size });
+            } else {
+                throw new HttpError(404, 'Not found.');
+            }
+        } catch (error) {
+            if (error instanceof HttpError) {
+                send(res, error.status, { error: error.message }, error.headers);
+            } else {
+                console.error('Gemini proxy error:', error);
+                send(res, 502, { error: `Gemini API Error: ${error instanceof Error ? error.message : 'unknown error'}` });
+            }
+        }
+    });
+}
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createGeminiProxy } from "./geminiProxy.js";
+import { createMockUpstream } from "./mockUpstream.js";
+
+const listen = (server) =>
+    new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`)));
+
+const close = (server) => new Promise(resolve => server.close(resolve));
+
+describe('createGeminiProxy', () => {
+    const mock = createMockUpstream();
+    let proxy;
+    let proxyUrl;
+
+    beforeAll(async () => {
+        const upstreamUrl = await listen(mock.server);
+        proxy = createGeminiProxy({ apiKey: 'test-key', upstreamUrl, requestsPerMinute: 1000 });
+        proxyUrl = await listen(proxy);
+    });
+
+    afterAll(async () => {
+        await Promise.all([close(proxy), close(mock.server)]);
+    });
+
+    const postImage = (body) =>
+        fetch(`${proxyUrl}/api/images`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+    it('returns the generated image and answers a repeat from the cache', async () => {
+        const before = mock.requestCount;
+        const first = await postImage({ prompt: 'a red apple' });
+        expect(first.status).toBe(200);
+        expect(first.headers.get('X-Cache')).toBe('MISS');
+        expect((await first.json()).imageUrl).toMatch(/^data:image\/png;base64,/);
+
+        const second = await postImage({ prompt: 'a red apple' });
+        expect(second.headers.get('X-Cache')).toBe('HIT');
+        expect(mock.requestCount - before).toBe(1);
+    });
+
+    it('passes upstream client errors through with their status', async () => {
+        for (const status of [400, 403, 429]) {
+            const response = await postImage({ prompt: `bread [fail ${status}]` });
+            expect(response.status).toBe(status);
+            expect((await response.json()).error).toBe(`Gemini API Error: Mock failure ${status}.`);
+        }
+    });
+
+    it('reports upstream server errors as a bad gateway and does not cache them', async () => {
+        const before = mock.requestCount;
+        for (let i = 0; i < 2; i++) {
+            const response = await postImage({ prompt: 'bread [fail 503]' });
+            expect(response.status).toBe(502);
+            expect((await response.json()).error).toBe('Gemini API Error: Mock failure 503.');
+        }
+        expect(mock.requestCount - before).toBe(2);
+    });
+
+    it('rejects invalid requests before calling upstream', async () => {
+        const before = mock.requestCount;
+        const response = await postImage({ prompt: 'bread', aspectRatio: '2:1' });
+        expect(response.status).toBe(400);
+        expect(mock.requestCount).toBe(before);
+    });
+
+    it('answers an oversized body with 413 instead of dropping the connection', async () => {
+        const response = await postImage({ prompt: 'x'.repeat(64 * 1024) });
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toBe('Request body is too large.');
+    });
+
+    it('rate-limits each client with a Retry-After header', async () => {
+        const limited = createGeminiProxy({ apiKey: 'test-key', upstreamUrl: 'http://127.0.0.1:9', requestsPerMinute: 1 });
+        const url = await listen(limited);
+        try {
+            const request = () => fetch(`${url}/api/images`, { method: 'POST', body: '{}' });
+            expect((await request()).status).toBe(400);
+            const response = await request();
+            expect(response.status).toBe(429);
+            expect(response.headers.get('Retry-After')).toBe('60');
+        } finally {
+            await close(limited);
+        }
+    });
+});
@@ -0,0 +1,45 @@
+import process from "node:process";
+import { DEFAULT_UPSTREAM_URL, createGeminiProxy } from "./geminiProxy.js";
+import { createMockUpstream } from "./mockUpstream.js";
+
+// Same file Vite reads, so one .env.local serves both. Missing is fine.
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // Configuration can come from the environment alone.
+}
+
+const env = process.env;
+const useMock = process.argv.includes('--mock');
+const numberFrom = (value, fallback) => (value === undefined || value === '' ? fallback : Number(value));
+
+let upstreamUrl = env.GEMINI_UPSTREAM_URL || DEFAULT_UPSTREAM_URL;
+let apiKey = env.GEMINI_API_KEY ?? '';
+
+if (useMock) {
+    const mock = createMockUpstream({ delayMs: numberFrom(env.MOCK_UPSTREAM_DELAY_MS, 300) });
+    await new Promise(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    upstreamUrl = `http://127.0.0.1:${mock.server.address().port}`;
+    apiKey = 'mock-key';
+    console.log(`Mock Gemini upstream on ${upstreamUrl}`);
+}
+
+if (!apiKey) {
+    console.error('GEMINI_API_KEY is not set. Put it in .env.local or the environment, or run with --mock.');
+    process.exit(1);
+}
+
+const port = numberFrom(env.PROXY_PORT, 8787);
+const proxy = createGeminiProxy({
+    apiKey,
+    upstreamUrl,
+    requestsPerMinute: numberFrom(env.PROXY_RATE_LIMIT_PER_MINUTE, 20),
+    cacheEntries: numberFrom(env.PROXY_CACHE_ENTRIES, 100),
+    cacheTtlMs: numberFrom(env.PROXY_CACHE_TTL_MINUTES, 60) * 60 * 1000,
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN || '*',
+    trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === '1',
+});
+
+proxy.listen(port, () => {
+    console.log(`Gemini proxy listening on http://localhost:${port} (set VITE_GEMINI_PROXY_URL to this address)`);
+});
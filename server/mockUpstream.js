@@ -0,0 +1,52 @@
+import http from "node:http";
+
+// A 1×1 transparent PNG, returned for every prompt.
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/**
+ * Stands in for the Gemini API so the proxy can run without a real key or
+ * network access. Answers Imagen `:predict` calls with a placeholder image and
+ * fails prompts containing "[fail <status>]" with that status, to exercise
+ * error handling. `requestCount` shows whether the proxy cache was used.
+ *
+ * @param {{ delayMs?: number }} [options]
+ */
+export function createMockUpstream({ delayMs = 0 } = {}) {
+    let requestCount = 0;
+
+    const server = http.createServer((req, res) => {
+        const chunks = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            setTimeout(() => {
+                const reply = (status, body) => {
+                    res.writeHead(status, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify(body));
+                };
+                if (req.method !== 'POST' || !/^\/v1beta\/models\/[^/]+:predict$/.test(req.url ?? '')) {
+                    reply(404, { error: { message: 'Not found.' } });
+                    return;
+                }
+                if (!req.headers['x-goog-api-key']) {
+                    reply(403, { error: { message: 'API key missing.' } });
+                    return;
+                }
+                requestCount++;
+                const prompt = JSON.parse(Buffer.concat(chunks).toString('utf8')).instances?.[0]?.prompt ?? '';
+                const failure = /\[fail (\d{3})\]/.exec(prompt);
+                if (failure) {
+                    reply(Number(failure[1]), { error: { message: `Mock failure ${failure[1]}.` } });
+                    return;
+                }
+                reply(200, { predictions: [{ bytesBase64Encoded: PIXEL_PNG, mimeType: 'image/png' }] });
+            }, delayMs);
+        });
+    });
+
+    return {
+        server,
+        get requestCount() {
+            return requestCount;
+        },
+    };
+}
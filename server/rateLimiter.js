@@ -0,0 +1,42 @@
+/**
+ * Per-client token bucket. Each client may burst up to `requestsPerMinute`
+ * requests, then gets one more every `60s / requestsPerMinute`.
+ *
+ * @param {{ requestsPerMinute: number }} options
+ */
+export function createRateLimiter({ requestsPerMinute }) {
+    const refillPerMs = requestsPerMinute / 60_000;
+    /** @type {Map<string, { tokens: number; updatedAt: number }>} */
+    const buckets = new Map();
+
+    // A full bucket is the same as no bucket, so idle clients can be dropped.
+    const prune = (now) => {
+        for (const [clientId, bucket] of buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= requestsPerMinute) {
+                buckets.delete(clientId);
+            }
+        }
+    };
+
+    return {
+        /**
+         * Takes a token for `clientId`. When none is left, reports how long
+         * until the next one.
+         *
+         * @returns {{ allowed: boolean; retryAfterMs: number }}
+         */
+        take(clientId, now = Date.now()) {
+            if (buckets.size > 10_000) prune(now);
+            const bucket = buckets.get(clientId) ?? { tokens: requestsPerMinute, updatedAt: now };
+            bucket.tokens = Math.min(requestsPerMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+            bucket.updatedAt = now;
+            buckets.set(clientId, bucket);
+
+            if (bucket.tokens < 1) {
+                return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+            }
+            bucket.tokens -= 1;
+            return { allowed: true, retryAfterMs: 0 };
+        },
+    };
+}
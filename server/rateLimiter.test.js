@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter.js";
+
+describe('createRateLimiter', () => {
+    it('allows a burst of requestsPerMinute, then rejects with the wait until the next token', () => {
+        const limiter = createRateLimiter({ requestsPerMinute: 3 });
+        expect([1, 2, 3].map(() => limiter.take('a', 0).allowed)).toEqual([true, true, true]);
+        expect(limiter.take('a', 0)).toEqual({ allowed: false, retryAfterMs: 20_000 });
+        expect(limiter.take('a', 5_000)).toEqual({ allowed: false, retryAfterMs: 15_000 });
+    });
+
+    it('refills one token every 60s / requestsPerMinute', () => {
+        const limiter = createRateLimiter({ requestsPerMinute: 3 });
+        [1, 2, 3].forEach(() => limiter.take('a', 0));
+        expect(limiter.take('a', 20_000).allowed).toBe(true);
+        expect(limiter.take('a', 20_000).allowed).toBe(false);
+    });
+
+    it('never refills beyond a full bucket', () => {
+        const limiter = createRateLimiter({ requestsPerMinute: 2 });
+        limiter.take('a', 0);
+        const later = 10 * 60_000;
+        expect([1, 2, 3].map(() => limiter.take('a', later).allowed)).toEqual([true, true, false]);
+    });
+
+    it('keeps a separate bucket per client', () => {
+        const limiter = createRateLimiter({ requestsPerMinute: 1 });
+        expect(limiter.take('a', 0).allowed).toBe(true);
+        expect(limiter.take('a', 0).allowed).toBe(false);
+        expect(limiter.take('b', 0).allowed).toBe(true);
+    });
+});
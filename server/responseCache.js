@@ -0,0 +1,61 @@
+/**
+ * Least-recently-used cache with a time-to-live. Identical requests that
+ * arrive while the first is still in flight share its result instead of
+ * reaching the upstream API twice; failures are never cached.
+ *
+ * @param {{ maxEntries: number; ttlMs: number }} options
+ */
+export function createResponseCache({ maxEntries, ttlMs }) {
+    /** @type {Map<string, { value: unknown; expiresAt: number }>} */
+    const entries = new Map();
+    /** @type {Map<string, Promise<unknown>>} */
+    const pending = new Map();
+
+    const get = (key, now = Date.now()) => {
+        const entry = entries.get(key);
+        if (!entry) return undefined;
+        entries.delete(key);
+        if (entry.expiresAt <= now) return undefined;
+        entries.set(key, entry); // Re-insert to mark as most recently used.
+        return entry.value;
+    };
+
+    const set = (key, value, now = Date.now()) => {
+        entries.delete(key);
+        entries.set(key, { value, expiresAt: now + ttlMs });
+        while (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value);
+        }
+    };
+
+    return {
+        get size() {
+            return entries.size;
+        },
+
+        /**
+         * Returns the cached value for `key`, or runs `load` to produce it.
+         * `hit` tells the caller whether the upstream was skipped.
+         *
+         * @template T
+         * @param {string} key
+         * @param {() => Promise<T>} load
+         * @returns {Promise<{ value: T; hit: boolean }>}
+         */
+        async getOrLoad(key, load) {
+            if (maxEntries <= 0) return { value: await load(), hit: false };
+            const cached = get(key);
+            if (cached !== undefined) return { value: cached, hit: true };
+
+            let request = pending.get(key);
+            const isShared = !!request;
+            if (!request) {
+                request = load().finally(() => pending.delete(key));
+                pending.set(key, request);
+            }
+            const value = await request;
+            if (!isShared) set(key, value);
+            return { value, hit: isShared };
+        },
+    };
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createResponseCache } from "./responseCache.js";
+
+describe('createResponseCache', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('serves a repeated key from the cache', async () => {
+        const cache = createResponseCache({ maxEntries: 10, ttlMs: 1000 });
+        const load = vi.fn().mockResolvedValue('image');
+        expect(await cache.getOrLoad('a', load)).toEqual({ value: 'image', hit: false });
+        expect(await cache.getOrLoad('a', load)).toEqual({ value: 'image', hit: true });
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('loads again once an entry has expired', async () => {
+        const cache = createResponseCache({ maxEntries: 10, ttlMs: 1000 });
+        const load = vi.fn().mockResolvedValue('image');
+        await cache.getOrLoad('a', load);
+        vi.setSystemTime(999);
+        expect((await cache.getOrLoad('a', load)).hit).toBe(true);
+        vi.setSystemTime(1000);
+        expect((await cache.getOrLoad('a', load)).hit).toBe(false);
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('shares an in-flight load between identical requests', async () => {
+        const cache = createResponseCache({ maxEntries: 10, ttlMs: 1000 });
+        const load = vi.fn().mockResolvedValue('image');
+        const results = await Promise.all([cache.getOrLoad('a', load), cache.getOrLoad('a', load)]);
+        expect(results.map(result => result.hit)).toEqual([false, true]);
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('never caches failures', async () => {
+        const cache = createResponseCache({ maxEntries: 10, ttlMs: 1000 });
+        const load = vi.fn().mockRejectedValueOnce(new Error('Upstream down')).mockResolvedValue('image');
+        await expect(cache.getOrLoad('a', load)).rejects.toThrow('Upstream down');
+        expect(await cache.getOrLoad('a', load)).toEqual({ value: 'image', hit: false });
+    });
+
+    it('evicts the least recently used entry when full', async () => {
+        const cache = createResponseCache({ maxEntries: 2, ttlMs: 1000 });
+        const load = vi.fn(async () => 'image');
+        await cache.getOrLoad('a', load);
+        await cache.getOrLoad('b', load);
+        await cache.getOrLoad('a', load); // "a" is now the most recently used.
+        await cache.getOrLoad('c', load);
+        expect(cache.size).toBe(2);
+        expect((await cache.getOrLoad('a', load)).hit).toBe(true);
+        expect((await cache.getOrLoad('b', load)).hit).toBe(false);
+    });
+
+    it('is bypassed when maxEntries is 0', async () => {
+        const cache = createResponseCache({ maxEntries: 0, ttlMs: 1000 });
+        const load = vi.fn().mockResolvedValue('image');
+        await cache.getOrLoad('a', load);
+        expect((await cache.getOrLoad('a', load)).hit).toBe(false);
+        expect(cache.size).toBe(0);
+    });
+});
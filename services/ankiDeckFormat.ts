@@ -0,0 +1,272 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import type { Database, SqlJsStatic } from "sql.js";
+import type { Deck, DeckFormat, FlashcardItem } from "../types";
+import { extensionFor, mimeTypeFor } from "./mediaTypes";
+import { blobToObjectUrl, urlToBlob } from "./storageService";
+import { isRecord } from "./typeGuards";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+const NEWER_FORMAT_ERROR = 'This package uses the newer Anki format. Re-export it with "Support older Anki versions" checked.';
+
+// Anki's legacy (schema 11) collection layout, which every Anki version imports.
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FRONT_TEMPLATE = '{{Image}}<br>{{Audio}}';
+const BACK_TEMPLATE = '{{FrontSide}}<hr id=answer>{{Text}}';
+const CARD_CSS = '.card { font-family: arial; font-size: 28px; text-align: center; color: black; background-color: white; } img { max-width: 90%; max-height: 60vh; }';
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its wasm binary are only fetched the first time an .apkg is used.
+function loadSql(): Promise<SqlJsStatic> {
+    if (!sqlPromise) {
+        sqlPromise = Promise.all([
+            import('sql.js'),
+            import('sql.js/dist/sql-wasm-browser.wasm?url'),
+        ]).then(([{ default: initSqlJs }, { default: wasmUrl }]) => initSqlJs({ locateFile: () => wasmUrl }));
+    }
+    return sqlPromise;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c] as string));
+
+const stripHtml = (html: string) =>
+    html
+        .replace(/\[sound:[^\]]*\]/g, '')
+        .replace(/<br\s*\/?>/gi, ' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+// Anki's checksum: the first 8 hex digits of the SHA-1 of the sort field.
+async function fieldChecksum(text: string): Promise<number> {
+    const digest = await crypto.subtle.digest('SHA-1', strToU8(text));
+    const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    return parseInt(hex.slice(0, 8), 16);
+}
+
+function buildCollectionJson(deck: Deck, modelId: number, deckId: number, nowSeconds: number) {
+    const fieldNames = ['Text', 'Image', 'Audio'];
+    const model = {
+        id: modelId,
+        name: 'Audio Flashcard',
+        type: 0,
+        mod: nowSeconds,
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: [{ name: 'Card 1', ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, did: null, bqfmt: '', bafmt: '' }],
+        flds: fieldNames.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+        css: CARD_CSS,
+        latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        tags: [],
+        vers: [],
+        req: [[0, 'any', [1, 2]]],
+    };
+    const deckEntry = (id: number, name: string, desc: string) => ({
+        id, name, desc, mod: nowSeconds, usn: -1, collapsed: false, dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
+        newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+    });
+    const deckConfig = {
+        id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, bury: true, minSpace: 1 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    };
+    const conf = {
+        activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+        curModel: modelId, nextPos: deck.cards.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+    };
+    return {
+        conf: JSON.stringify(conf),
+        models: JSON.stringify({ [modelId]: model }),
+        decks: JSON.stringify({ 1: deckEntry(1, 'Default', ''), [deckId]: deckEntry(deckId, deck.name, deck.description) }),
+        dconf: JSON.stringify({ 1: deckConfig }),
+    };
+}
+
+async function exportApkg(deck: Deck): Promise<Blob> {
+    const SQL = await loadSql();
+    const db = new SQL.Database();
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const collectionCreated = Math.floor(new Date(new Date().toDateString()).getTime() / 1000);
+    const modelId = now;
+    const deckId = now + 1;
+
+    const files: Zippable = {};
+    const mediaMap: Record<string, string> = {};
+    const addMedia = async (url: string, baseName: string): Promise<string | null> => {
+        try {
+            const blob = await urlToBlob(url);
+            const filename = `${baseName}.${extensionFor(blob.type, url)}`;
+            const index = String(Object.keys(mediaMap).length);
+            mediaMap[index] = filename;
+            // Audio and images are already compressed; store them as-is.
+            files[index] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+            return filename;
+        } catch (error) {
+            console.warn(`Could not include media ${url} in the Anki package:`, error);
+            return null;
+        }
+    };
+
+    try {
+        db.exec(SCHEMA);
+        const json = buildCollectionJson(deck, modelId, deckId, nowSeconds);
+        db.run(
+            'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+            [collectionCreated, now, now, json.conf, json.models, json.decks, json.dconf, '{}'],
+        );
+
+        for (const [index, card] of deck.cards.entries()) {
+            const mediaBase = `flashcard-${deckId}-${index}`;
+            const image = card.imageUrl ? await addMedia(card.imageUrl, `${mediaBase}-image`) : null;
+            const audio = card.audioUrl ? await addMedia(card.audioUrl, `${mediaBase}-audio`) : null;
+            const fields = [
+                escapeHtml(card.text),
+                image ? `<img src="${escapeHtml(image)}">` : '',
+                audio ? `[sound:${audio}]` : '',
+            ];
+            const noteId = now + index;
+            const tags = (card.tags ?? []).map(tag => tag.replace(/\s+/g, '_')).join(' ');
+            db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+                noteId,
+                `${deckId}-${index}-${card.id}`.slice(0, 64),
+                modelId,
+                nowSeconds,
+                tags ? ` ${tags} ` : '',
+                fields.join(FIELD_SEPARATOR),
+                card.text,
+                await fieldChecksum(card.text),
+            ]);
+
+            // Carry our SM-2 state over so reviewed cards don't start from scratch.
+            const schedule = card.schedule;
+            const isReview = !!schedule && schedule.repetitions > 0;
+            const due = isReview
+                ? Math.max(0, Math.floor((schedule.due - collectionCreated * 1000) / DAY_MS))
+                : index + 1;
+            db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')', [
+                noteId,
+                noteId,
+                deckId,
+                nowSeconds,
+                isReview ? 2 : 0,
+                isReview ? 2 : 0,
+                due,
+                isReview ? schedule.interval : 0,
+                Math.round((schedule?.ease ?? 2.5) * 1000),
+                schedule?.repetitions ?? 0,
+                schedule?.lapses ?? 0,
+            ]);
+        }
+
+        files['collection.anki2'] = db.export();
+    } finally {
+        db.close();
+    }
+    files['media'] = strToU8(JSON.stringify(mediaMap));
+    return new Blob([zipSync(files)], { type: 'application/octet-stream' });
+}
+
+function readNotes(db: Database): { flds: string; tags: string; mid: number }[] {
+    const result = db.exec('SELECT flds, tags, mid FROM notes ORDER BY id');
+    return (result[0]?.values ?? []).map(([flds, tags, mid]) => ({
+        flds: String(flds),
+        tags: String(tags),
+        mid: Number(mid),
+    }));
+}
+
+function readFieldNames(db: Database): Record<number, string[]> {
+    const models: unknown = JSON.parse(String(db.exec('SELECT models FROM col')[0]?.values[0]?.[0] ?? '{}'));
+    if (!isRecord(models)) return {};
+    return Object.fromEntries(Object.values(models).filter(isRecord).map(model => {
+        const fields = Array.isArray(model.flds) ? model.flds.filter(isRecord) : [];
+        return [
+            Number(model.id),
+            fields.sort((a, b) => Number(a.ord) - Number(b.ord)).map(field => String(field.name)),
+        ];
+    }));
+}
+
+async function importApkg(file: Blob, name: string) {
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    const collection = entries['collection.anki21'] ?? entries['collection.anki2'];
+    // Newer packages keep the real collection in a zstd-compressed
+    // collection.anki21b next to a placeholder collection.anki2.
+    if (!collection || (entries['collection.anki21b'] && !entries['collection.anki21'])) {
+        throw new Error(NEWER_FORMAT_ERROR);
+    }
+
+    let mediaMap: Record<string, string>;
+    try {
+        mediaMap = entries['media'] ? JSON.parse(strFromU8(entries['media'])) : {};
+    } catch {
+        throw new Error(NEWER_FORMAT_ERROR);
+    }
+    const mediaUrls = new Map<string, string>();
+    for (const [index, filename] of Object.entries(mediaMap)) {
+        if (entries[index]) {
+            mediaUrls.set(filename, blobToObjectUrl(new Blob([entries[index]], { type: mimeTypeFor(filename) })));
+        }
+    }
+
+    const SQL = await loadSql();
+    const db = new SQL.Database(collection);
+    try {
+        const fieldNames = readFieldNames(db);
+        const cards: FlashcardItem[] = readNotes(db).map(note => {
+            const fields = note.flds.split(FIELD_SEPARATOR);
+            const names = fieldNames[note.mid] ?? [];
+            const joined = fields.join(' ');
+            const sound = joined.match(/\[sound:([^\]]+)\]/)?.[1];
+            const image = joined.match(/<img[^>]+src=["']?([^"'>]+)/i)?.[1];
+            // Prefer a field named like the text, else the first field with any text in it.
+            const textIndex = names.findIndex(n => /^(text|front|word|expression)$/i.test(n));
+            const text = stripHtml(fields[textIndex] ?? '') || fields.map(stripHtml).find(Boolean) || '';
+            return {
+                id: crypto.randomUUID(),
+                text,
+                audioUrl: (sound && mediaUrls.get(sound)) || '',
+                imageUrl: (image && mediaUrls.get(image)) || null,
+                isLoading: false,
+                tags: note.tags.trim() ? note.tags.trim().split(/\s+/) : undefined,
+            };
+        }).filter(card => card.text);
+        return { name, cards };
+    } finally {
+        db.close();
+    }
+}
+
+export const ankiDeckFormat: DeckFormat = {
+    id: 'apkg',
+    label: 'Anki package',
+    extension: '.apkg',
+    mimeType: 'application/octet-stream',
+    exportDeck: exportApkg,
+    importDeck: importApkg,
+};
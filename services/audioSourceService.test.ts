@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseGitHubLocation } from "./audioSourceService";
+
+describe('parseGitHubLocation', () => {
+    it('reads the owner/repo/path shorthand', () => {
+        expect(parseGitHubLocation('  teacher/lessons/audio/unit 1/ ')).toEqual({
+            owner: 'teacher',
+            repo: 'lessons',
+            ref: undefined,
+            path: 'audio/unit 1',
+        });
+    });
+
+    it('allows a repository root', () => {
+        expect(parseGitHubLocation('teacher/lessons')).toEqual({ owner: 'teacher', repo: 'lessons', ref: undefined, path: '' });
+    });
+
+    it('reads the ref and path from a github.com tree URL', () => {
+        expect(parseGitHubLocation('https://github.com/teacher/lessons/tree/main/audio/unit%201')).toEqual({
+            owner: 'teacher',
+            repo: 'lessons',
+            ref: 'main',
+            path: 'audio/unit 1',
+        });
+    });
+
+    it('reads a github.com blob URL the same way', () => {
+        expect(parseGitHubLocation('https://github.com/teacher/lessons/blob/v2/audio')).toMatchObject({ ref: 'v2', path: 'audio' });
+    });
+
+    it('reads a github.com repository URL without a ref', () => {
+        expect(parseGitHubLocation('https://github.com/teacher/lessons/')).toEqual({ owner: 'teacher', repo: 'lessons', ref: undefined, path: '' });
+    });
+
+    it('reads the ref and path from a raw.githubusercontent.com URL', () => {
+        expect(parseGitHubLocation('https://raw.githubusercontent.com/teacher/lessons/main/audio/unit1')).toEqual({
+            owner: 'teacher',
+            repo: 'lessons',
+            ref: 'main',
+            path: 'audio/unit1',
+        });
+    });
+
+    it('rejects URLs on other hosts', () => {
+        expect(() => parseGitHubLocation('https://gitlab.com/teacher/lessons/tree/main/audio')).toThrow('Not a GitHub URL: gitlab.com');
+    });
+
+    it('rejects a location without a repository', () => {
+        expect(() => parseGitHubLocation('teacher')).toThrow('Expected a GitHub location');
+        expect(() => parseGitHubLocation('https://github.com/teacher')).toThrow('Expected a GitHub location');
+    });
+});
@@ -0,0 +1,149 @@
+import type { AudioSource, FilenameTextRules, FlashcardItem } from "../types";
+import { filenameToText } from "./filenameText";
+import { mimeTypeFor } from "./mediaTypes";
+import { blobToObjectUrl } from "./storageService";
+
+const isAudioFile = (name: string, type = '') =>
+    type.startsWith('audio/') || mimeTypeFor(name).startsWith('audio/');
+
+// "2 foo" sorts before "10 foo".
+const byFilename = (a: { filename: string }, b: { filename: string }) =>
+    a.filename.localeCompare(b.filename, undefined, { numeric: true, sensitivity: 'base' });
+
+export function cardsFromAudioSources(sources: AudioSource[], rules: FilenameTextRules): FlashcardItem[] {
+    return sources.map(source => ({
+        id: crypto.randomUUID(),
+        text: filenameToText(source.filename, rules),
+        audioUrl: source.url,
+        imageUrl: null,
+        isLoading: false,
+        createdAt: Date.now(),
+    }));
+}
+
+// Local files are referenced through object URLs, which storage saves as Blobs.
+export function audioSourcesFromFiles(files: File[]): AudioSource[] {
+    return files
+        .filter(file => isAudioFile(file.name, file.type))
+        .map(file => ({ filename: file.name, url: blobToObjectUrl(file) }))
+        .sort(byFilename);
+}
+
+// The top-level folder of a directory pick ("unit2/01 bread.mp3" -> "unit2").
+export function folderNameOf(files: File[]): string {
+    const path = files.find(file => file.webkitRelativePath)?.webkitRelativePath ?? '';
+    return path.includes('/') ? path.split('/')[0] : '';
+}
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty one.
+    return new Promise((resolve, reject) => {
+        const next = () => reader.readEntries(batch => {
+            if (batch.length === 0) {
+                resolve(entries);
+            } else {
+                entries.push(...batch);
+                next();
+            }
+        }, reject);
+        next();
+    });
+};
+
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+
+async function filesFromEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (isFileEntry(entry)) {
+        return [await new Promise<File>((resolve, reject) => entry.file(resolve, reject))];
+    }
+    if (isDirectoryEntry(entry)) {
+        const children = await readDirectory(entry);
+        return (await Promise.all(children.map(filesFromEntry))).flat();
+    }
+    return [];
+}
+
+/**
+ * Collects the files from a drop, descending into dropped folders. Also returns
+ * the name of the first dropped folder, if any, to name the deck after.
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<{ files: File[]; folderName: string }> {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) {
+        return { files: Array.from(dataTransfer.files), folderName: '' };
+    }
+    const files = (await Promise.all(entries.map(filesFromEntry))).flat();
+    return { files, folderName: entries.find(isDirectoryEntry)?.name ?? '' };
+}
+
+// The fields we use from an item of the GitHub contents API's directory listing.
+interface GitHubContentItem {
+    type: 'file' | 'dir' | 'symlink' | 'submodule';
+    name: string;
+    download_url: string | null;
+}
+
+export interface GitHubLocation {
+    owner: string;
+    repo: string;
+    ref?: string;
+    path: string;
+}
+
+/**
+ * Accepts "owner/repo/path/to/dir", "https://github.com/owner/repo/tree/<ref>/path"
+ * or a raw.githubusercontent.com URL of the directory.
+ */
+export function parseGitHubLocation(input: string): GitHubLocation {
+    const trimmed = input.trim().replace(/\/+$/, '');
+    let segments: string[];
+    let ref: string | undefined;
+
+    if (/^https?:\/\//i.test(trimmed)) {
+        const url = new URL(trimmed);
+        segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+        if (url.hostname === 'raw.githubusercontent.com') {
+            ref = segments.splice(2, 1)[0];
+        } else if (url.hostname === 'github.com') {
+            if (segments[2] === 'tree' || segments[2] === 'blob') {
+                ref = segments.splice(2, 2)[1];
+            }
+        } else {
+            throw new Error(`Not a GitHub URL: ${url.hostname}`);
+        }
+    } else {
+        segments = trimmed.split('/').filter(Boolean);
+    }
+
+    const [owner, repo, ...path] = segments;
+    if (!owner || !repo) {
+        throw new Error('Expected a GitHub location like "owner/repo/path/to/folder".');
+    }
+    return { owner, repo, ref, path: path.join('/') };
+}
+
+// Lists the audio files in a GitHub directory through the contents API.
+export async function listGitHubAudio(location: GitHubLocation): Promise<AudioSource[]> {
+    const { owner, repo, ref, path } = location;
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${encodedPath}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
+    const response = await fetch(url, { headers: { Accept: 'application/vnd.github+json' } });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(`GitHub API Error: ${body?.message || response.statusText} (${response.status})`);
+    }
+    const listing: GitHubContentItem[] | GitHubContentItem = await response.json();
+    if (!Array.isArray(listing)) {
+        throw new Error('GitHub API Error: the location is a file, not a folder.');
+    }
+    return listing
+        .filter((item): item is GitHubContentItem & { download_url: string } =>
+            item.type === 'file' && !!item.download_url && isAudioFile(item.name))
+        .map(item => ({ filename: item.name, url: item.download_url }))
+        .sort(byFilename);
+}
@@ -0,0 +1,103 @@
+import type { CardFilter, CardQuery, CardSort, FlashcardItem } from "../types";
+import { isDueToday } from "./schedulerService";
+
+export const DEFAULT_CARD_QUERY: CardQuery = { search: '', filter: 'all', sort: 'deck' };
+
+// Latest pronunciation scores below this count as "low".
+export const LOW_SCORE_THRESHOLD = 60;
+
+export const CARD_FILTER_OPTIONS: { id: CardFilter; label: string }[] = [
+    { id: 'all', label: 'All cards' },
+    { id: 'has-image', label: 'Has image' },
+    { id: 'missing-image', label: 'Missing image' },
+    { id: 'failed', label: 'Generation failed' },
+    { id: 'due', label: 'Due for review' },
+    { id: 'low-score', label: 'Low pronunciation score' },
+];
+
+export const CARD_SORT_OPTIONS: { id: CardSort; label: string }[] = [
+    { id: 'deck', label: 'Deck order' },
+    { id: 'alphabetical', label: 'Alphabetical' },
+    { id: 'added', label: 'Recently added' },
+    { id: 'score', label: 'Lowest score first' },
+];
+
+const latestScore = (card: FlashcardItem): number | undefined => {
+    const attempts = card.practiceAttempts;
+    if (!attempts || attempts.length === 0) return undefined;
+    return attempts.reduce((latest, attempt) => (attempt.timestamp > latest.timestamp ? attempt : latest)).score;
+};
+
+function matchesFilter(card: FlashcardItem, filter: CardFilter, now: number): boolean {
+    switch (filter) {
+        case 'has-image':
+            return !!card.imageUrl;
+        case 'missing-image':
+            return !card.imageUrl;
+        case 'failed':
+            return !!card.generationError;
+        case 'due':
+            return isDueToday(card, now);
+        case 'low-score': {
+            const score = latestScore(card);
+            return score !== undefined && score < LOW_SCORE_THRESHOLD;
+        }
+        default:
+            return true;
+    }
+}
+
+const matchesSearch = (card: FlashcardItem, search: string): boolean => {
+    const needle = search.trim().toLocaleLowerCase();
+    if (!needle) return true;
+    return [card.text, card.prompt ?? '', ...(card.tags ?? [])]
+        .some(field => field.toLocaleLowerCase().includes(needle));
+};
+
+/**
+ * Filters and sorts cards for display. Sorting is stable, and cards without a
+ * date or score keep their deck order after the ones that have one.
+ */
+export function applyCardQuery(cards: FlashcardItem[], query: CardQuery, now = Date.now()): FlashcardItem[] {
+    const position = new Map(cards.map((card, index) => [card.id, index]));
+    const byPosition = (a: FlashcardItem, b: FlashcardItem) => position.get(a.id)! - position.get(b.id)!;
+    const visible = cards.filter(card => matchesFilter(card, query.filter, now) && matchesSearch(card, query.search));
+
+    switch (query.sort) {
+        case 'alphabetical':
+            return visible.sort((a, b) => a.text.localeCompare(b.text, undefined, { sensitivity: 'base', numeric: true }));
+        case 'added':
+            return visible.sort((a, b) => (b.createdAt ?? -Infinity) - (a.createdAt ?? -Infinity) || byPosition(a, b));
+        case 'score':
+            return visible.sort((a, b) => (latestScore(a) ?? Infinity) - (latestScore(b) ?? Infinity) || byPosition(a, b));
+        default:
+            return visible;
+    }
+}
+
+const isFilter = (value: string | null): value is CardFilter =>
+    CARD_FILTER_OPTIONS.some(option => option.id === value);
+const isSort = (value: string | null): value is CardSort =>
+    CARD_SORT_OPTIONS.some(option => option.id === value);
+
+// Reads `?q=...&filter=...&sort=...`, ignoring unknown values.
+export function readCardQuery(params: URLSearchParams): CardQuery {
+    const filter = params.get('filter');
+    const sort = params.get('sort');
+    return {
+        search: params.get('q') ?? '',
+        filter: isFilter(filter) ? filter : DEFAULT_CARD_QUERY.filter,
+        sort: isSort(sort) ? sort : DEFAULT_CARD_QUERY.sort,
+    };
+}
+
+// Writes the query into `params`, leaving defaults out so plain links stay plain.
+export function writeCardQuery(query: CardQuery, params: URLSearchParams): URLSearchParams {
+    const next = new URLSearchParams(params);
+    const set = (key: string, value: string, defaultValue: string) =>
+        value && value !== defaultValue ? next.set(key, value) : next.delete(key);
+    set('q', query.search.trim(), DEFAULT_CARD_QUERY.search);
+    set('filter', query.filter, DEFAULT_CARD_QUERY.filter);
+    set('sort', query.sort, DEFAULT_CARD_QUERY.sort);
+    return next;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { Deck } from "../types";
+import { csvDeckFormat, guardFormula, parseDelimited, toDelimited, unguardFormula } from "./csvDeckFormat";
+
+const ROWS = [
+    ['text', 'prompt'],
+    ['say "hola"', 'a wave, smiling'],
+    ['line one\nline two', ' padded '],
+    ['tab\there', 'crlf\r\nend'],
+];
+
+describe('parseDelimited / toDelimited', () => {
+    it('round-trips quotes, delimiters, newlines and padding', () => {
+        expect(parseDelimited(toDelimited(ROWS, ','), ',')).toEqual(ROWS);
+        expect(parseDelimited(toDelimited(ROWS, '\t'), '\t')).toEqual(ROWS);
+    });
+
+    it('quotes only the fields that need it', () => {
+        expect(toDelimited([['plain', 'a,b', 'say "hi"']], ',')).toBe('plain,"a,b","say ""hi"""\r\n');
+    });
+
+    it('skips a byte order mark and blank lines', () => {
+        expect(parseDelimited('\uFEFF"text",tags\n\npan,food\r\n', ',')).toEqual([['text', 'tags'], ['pan', 'food']]);
+    });
+
+    it('keeps a last row that has no line break', () => {
+        expect(parseDelimited('text\npan', ',')).toEqual([['text'], ['pan']]);
+    });
+});
+
+describe('formula guard', () => {
+    it('prefixes cells a spreadsheet would run as a formula', () => {
+        expect(['=1+1', '+1', '-1', '@SUM(A1)', 'hola', ''].map(guardFormula)).toEqual(["'=1+1", "'+1", "'-1", "'@SUM(A1)", 'hola', '']);
+    });
+
+    it('removes only the prefix it added', () => {
+        expect(unguardFormula(guardFormula('=1+1'))).toBe('=1+1');
+        expect(unguardFormula("'tis")).toBe("'tis");
+    });
+});
+
+describe('csvDeckFormat', () => {
+    it('exports formula-like text guarded and imports it unchanged', async () => {
+        const deck: Deck = {
+            id: 'deck',
+            name: 'Unit 2',
+            description: '',
+            createdAt: 1,
+            updatedAt: 1,
+            cards: [{ id: '1', text: '=HYPERLINK("x")', audioUrl: '', imageUrl: null, isLoading: false, tags: ['-verbs'] }],
+        };
+        const file = await csvDeckFormat.exportDeck!(deck);
+        expect(await file.text()).toContain(`"'=HYPERLINK(""x"")"`);
+        const imported = await csvDeckFormat.importDeck!(file, 'Unit 2');
+        expect(imported.cards[0]).toMatchObject({ text: '=HYPERLINK("x")', tags: ['-verbs'] });
+    });
+});
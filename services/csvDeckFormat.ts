@@ -0,0 +1,117 @@
+import type { DeckFormat } from "../types";
+import { validateCards } from "./deckSchema";
+import { inlineObjectUrl } from "./storageService";
+
+const COLUMNS = ['text', 'audioUrl', 'imageUrl', 'prompt', 'tags'] as const;
+
+// Spreadsheets run a cell starting with one of these as a formula. Exports
+// prefix such cells with an apostrophe, which imports strip again.
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+export const guardFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+export const unguardFormula = (value: string): string =>
+    value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Parses RFC 4180 style delimited text: fields may be quoted, and quoted
+ * fields may contain the delimiter, newlines and doubled quotes.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Excel writes a byte order mark at the start of UTF-8 files.
+    for (let i = text.startsWith('\uFEFF') ? 1 : 0; i < text.length; i++) {
+        const c = text[i];
+        if (inQuotes) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                inQuotes = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"' && field === '') {
+            inQuotes = true;
+        } else if (c === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Drop blank lines.
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+export function toDelimited(rows: string[][], delimiter: string): string {
+    const escape = (value: string) =>
+        /["\r\n]/.test(value) || value.includes(delimiter) || value !== value.trim()
+            ? `"${value.replace(/"/g, '""')}"`
+            : value;
+    return rows.map(row => row.map(escape).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function createDelimitedDeckFormat(id: string, label: string, extension: string, mimeType: string, delimiter: string): DeckFormat {
+    return {
+        id,
+        label,
+        extension,
+        mimeType,
+
+        async exportDeck(deck) {
+            const rows = await Promise.all(deck.cards.map(async card => [
+                card.text,
+                await inlineObjectUrl(card.audioUrl),
+                card.imageUrl ? await inlineObjectUrl(card.imageUrl) : '',
+                card.prompt ?? '',
+                (card.tags ?? []).join(';'),
+            ].map(guardFormula)));
+            return new Blob([toDelimited([[...COLUMNS], ...rows], delimiter)], { type: mimeType });
+        },
+
+        async importDeck(file, name) {
+            const [header, ...rows] = parseDelimited(await file.text(), delimiter);
+            if (!header) {
+                throw new Error(`The ${label} file is empty.`);
+            }
+            const columnIndex = Object.fromEntries(
+                COLUMNS.map(column => [column, header.findIndex(h => h.trim().toLowerCase() === column.toLowerCase())])
+            ) as Record<typeof COLUMNS[number], number>;
+            if (columnIndex.text === -1) {
+                throw new Error(`The ${label} header must include a "text" column.`);
+            }
+
+            const cell = (row: string[], column: typeof COLUMNS[number]) =>
+                columnIndex[column] === -1 ? '' : unguardFormula((row[columnIndex[column]] ?? '').trim());
+            const cards = rows
+                .filter(row => cell(row, 'text'))
+                .map(row => ({
+                    id: crypto.randomUUID(),
+                    text: cell(row, 'text'),
+                    audioUrl: cell(row, 'audioUrl'),
+                    imageUrl: cell(row, 'imageUrl') || null,
+                    prompt: cell(row, 'prompt') || undefined,
+                    tags: cell(row, 'tags'),
+                }));
+            return { name, ...validateCards(cards) };
+        },
+    };
+}
+
+export const csvDeckFormat = createDelimitedDeckFormat('csv', 'CSV', '.csv', 'text/csv', ',');
+export const tsvDeckFormat = createDelimitedDeckFormat('tsv', 'TSV', '.tsv', 'text/tab-separated-values', '\t');
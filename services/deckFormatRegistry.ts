@@ -0,0 +1,39 @@
+import type { DeckFormat } from "../types";
+import { ankiDeckFormat } from "./ankiDeckFormat";
+import { csvDeckFormat, tsvDeckFormat } from "./csvDeckFormat";
+import { jsonDeckFormat } from "./jsonDeckFormat";
+import { zipDeckFormat } from "./zipDeckFormat";
+
+// Every supported import/export format. JSON comes first as the default.
+export const DECK_FORMATS: DeckFormat[] = [
+    jsonDeckFormat,
+    zipDeckFormat,
+    csvDeckFormat,
+    tsvDeckFormat,
+    ankiDeckFormat,
+];
+
+export function getDeckFormat(id: string): DeckFormat | undefined {
+    return DECK_FORMATS.find(format => format.id === id);
+}
+
+/**
+ * Picks the format for a file name or URL by its extension, defaulting to JSON.
+ */
+export function findDeckFormat(filename: string): DeckFormat {
+    const path = filename.split(/[?#]/)[0].toLowerCase();
+    return DECK_FORMATS.find(format => path.endsWith(format.extension)) ?? jsonDeckFormat;
+}
+
+// Value for an <input type="file"> accept attribute covering importable formats.
+export const IMPORT_ACCEPT = DECK_FORMATS
+    .filter(format => format.importDeck)
+    .map(format => format.extension)
+    .join(',');
+
+// Strips a known format extension to get a deck name from a file name.
+export const deckNameFromFilename = (filename: string): string =>
+    DECK_FORMATS.reduce(
+        (name, format) => name.toLowerCase().endsWith(format.extension) ? name.slice(0, -format.extension.length) : name,
+        filename,
+    );
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { DECK_SCHEMA_VERSION, migrateDeckDocument, validateCards } from "./deckSchema";
+
+const variant = (id: string, url: string) => ({ id, url, prompt: '', createdAt: 1 });
+
+describe('validateCards', () => {
+    it('resolves imageVariantId to the variant\'s image', () => {
+        const { cards, issues } = validateCards([{
+            id: 1,
+            text: 'bread',
+            audioUrl: '',
+            imageUrl: null,
+            imageVariantId: 'b',
+            imageHistory: [variant('a', 'https://example.com/a.png'), variant('b', 'https://example.com/b.png')],
+        }]);
+        expect(issues).toEqual([]);
+        expect(cards[0].imageUrl).toBe('https://example.com/b.png');
+        expect(cards[0].imageHistory).toHaveLength(2);
+    });
+
+    it('reports an imageVariantId that matches no variant', () => {
+        const { cards, issues } = validateCards([{
+            id: 1,
+            text: 'bread',
+            audioUrl: '',
+            imageVariantId: 'missing',
+            imageHistory: [variant('a', 'https://example.com/a.png')],
+        }]);
+        expect(cards).toEqual([]);
+        expect(issues).toEqual([{ index: 0, field: 'imageVariantId', reason: 'does not match any imageHistory variant' }]);
+    });
+
+    it('keeps a plain imageUrl', () => {
+        const { cards } = validateCards([{ id: 1, text: 'bread', audioUrl: '', imageUrl: 'https://example.com/a.png' }]);
+        expect(cards[0].imageUrl).toBe('https://example.com/a.png');
+    });
+
+    it('rejects blob URLs from the file itself', () => {
+        const { cards, issues } = validateCards([{ id: 1, text: 'bread', audioUrl: 'blob:https://example.com/1234' }]);
+        expect(cards).toEqual([]);
+        expect(issues).toEqual([{ index: 0, field: 'audioUrl', reason: 'is not a valid http(s) or data URL' }]);
+    });
+
+    it('accepts the object URLs the importer created', () => {
+        const audioUrl = 'blob:https://example.com/1234';
+        const { cards, issues } = validateCards([{ id: 1, text: 'bread', audioUrl }], { objectUrls: new Set([audioUrl]) });
+        expect(issues).toEqual([]);
+        expect(cards[0].audioUrl).toBe(audioUrl);
+    });
+});
+
+describe('migrateDeckDocument', () => {
+    it('keeps the deck\'s image style and ignores a mistyped one', () => {
+        const document = { version: DECK_SCHEMA_VERSION, name: 'Unit 2', exportedAt: null, cards: [] };
+        expect(migrateDeckDocument({ ...document, defaultStyleId: 'watercolor' }).defaultStyleId).toBe('watercolor');
+        expect(migrateDeckDocument({ ...document, defaultStyleId: 3 }).defaultStyleId).toBeUndefined();
+    });
+});
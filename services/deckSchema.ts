@@ -0,0 +1,211 @@
+import type { CardValidationIssue, DeckDocument, FlashcardItem } from "../types";
+import { parseImageHistory, parseRecordings, parseTags } from "./deckService";
+import { parseSchedule } from "./schedulerService";
+import { parseVoiceSettings } from "./ttsProviderService";
+import { parsePracticeAttempts } from "./statsService";
+import { isRecord } from "./typeGuards";
+
+/**
+ * Version history of the JSON deck format:
+ *   1 – a bare array of cards (exports from before decks existed).
+ *   2 – `{ version, name, description, exportedAt, cards }`. A card whose
+ *       image is one of its `imageHistory` variants may give that variant's
+ *       `imageVariantId` instead of repeating it in `imageUrl`.
+ */
+export const DECK_SCHEMA_VERSION = 2;
+
+// Each entry upgrades a document from version N to N + 1.
+const MIGRATIONS: Record<number, (document: unknown) => Record<string, unknown>> = {
+    1: cards => ({ version: 2, name: '', description: '', exportedAt: null, cards }),
+};
+
+// Blob URLs only mean something in the page that created them, so files may
+// not bring their own; importers pass the ones they made in `objectUrls`.
+const MEDIA_PROTOCOLS = ['http:', 'https:', 'data:'];
+const INVALID_URL = 'is not a valid http(s) or data URL';
+
+export interface ValidateCardsOptions {
+    // Object URLs the importer created for media unpacked from the file.
+    objectUrls?: ReadonlySet<string>;
+}
+
+const isMediaUrl = (value: string, objectUrls?: ReadonlySet<string>): boolean => {
+    if (objectUrls?.has(value)) return true;
+    try {
+        return MEDIA_PROTOCOLS.includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+export function detectDeckVersion(data: unknown): number {
+    if (Array.isArray(data)) return 1;
+    if (isRecord(data) && typeof data.version === 'number' && Number.isInteger(data.version) && data.version > 0) {
+        return data.version;
+    }
+    throw new Error("Unrecognized deck file. Expected a deck object with a version number or an array of cards.");
+}
+
+/**
+ * Upgrades any supported deck document to the current version. Structural
+ * problems throw; problems with individual cards are left to `validateCards`.
+ */
+export function migrateDeckDocument(data: unknown): DeckDocument {
+    let version = detectDeckVersion(data);
+    if (version > DECK_SCHEMA_VERSION) {
+        throw new Error(`This deck was saved by a newer version of the app (format v${version}). Please update the app.`);
+    }
+    let document = data;
+    while (version < DECK_SCHEMA_VERSION) {
+        document = MIGRATIONS[version](document);
+        version = detectDeckVersion(document);
+    }
+    if (!isRecord(document) || !Array.isArray(document.cards)) {
+        throw new Error('Invalid deck: "cards" must be an array.');
+    }
+    return {
+        version,
+        name: typeof document.name === 'string' ? document.name : '',
+        description: typeof document.description === 'string' ? document.description : '',
+        language: typeof document.language === 'string' && document.language ? document.language : undefined,
+        ignoreDiacritics: typeof document.ignoreDiacritics === 'boolean' ? document.ignoreDiacritics : undefined,
+        tts: parseVoiceSettings(document.tts),
+        defaultStyleId: typeof document.defaultStyleId === 'string' ? document.defaultStyleId : undefined,
+        exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : null,
+        cards: document.cards,
+    };
+}
+
+function checkCard(item: unknown, index: number, seenIds: Map<string, number>, objectUrls?: ReadonlySet<string>): CardValidationIssue[] {
+    const issues: CardValidationIssue[] = [];
+    const issue = (field: string, reason: string) => issues.push({ index, field, reason });
+
+    if (!isRecord(item)) {
+        issue('card', 'must be an object');
+        return issues;
+    }
+
+    if (item.id === undefined || item.id === null) {
+        issue('id', 'is required');
+    } else if (typeof item.id !== 'string' && typeof item.id !== 'number') {
+        issue('id', 'must be a string or number');
+    } else if (String(item.id).trim() === '') {
+        issue('id', 'must not be empty');
+    } else if (seenIds.has(String(item.id))) {
+        issue('id', `duplicates the id of card #${seenIds.get(String(item.id))! + 1}`);
+    } else {
+        seenIds.set(String(item.id), index);
+    }
+
+    if (typeof item.text !== 'string') {
+        issue('text', item.text === undefined ? 'is required' : 'must be a string');
+    } else if (!item.text.trim()) {
+        issue('text', 'must not be empty');
+    }
+
+    if (typeof item.audioUrl !== 'string') {
+        issue('audioUrl', item.audioUrl === undefined ? 'is required' : 'must be a string');
+    } else if (item.audioUrl && !isMediaUrl(item.audioUrl, objectUrls)) {
+        issue('audioUrl', INVALID_URL);
+    }
+
+    if (item.imageUrl !== undefined && item.imageUrl !== null && item.imageUrl !== '') {
+        if (typeof item.imageUrl !== 'string') {
+            issue('imageUrl', 'must be a string or null');
+        } else if (!isMediaUrl(item.imageUrl, objectUrls)) {
+            issue('imageUrl', INVALID_URL);
+        }
+    }
+
+    if (item.imageHistory !== undefined) {
+        if (!Array.isArray(item.imageHistory)) {
+            issue('imageHistory', 'must be an array');
+        } else {
+            item.imageHistory.forEach((variant: unknown, i: number) => {
+                if (!isRecord(variant) || typeof variant.url !== 'string' || !isMediaUrl(variant.url, objectUrls)) {
+                    issue(`imageHistory[${i}].url`, INVALID_URL);
+                }
+            });
+        }
+    }
+
+    if (item.recordings !== undefined) {
+        if (!Array.isArray(item.recordings)) {
+            issue('recordings', 'must be an array');
+        } else {
+            item.recordings.forEach((recording: unknown, i: number) => {
+                if (!isRecord(recording) || typeof recording.url !== 'string' || !isMediaUrl(recording.url, objectUrls)) {
+                    issue(`recordings[${i}].url`, INVALID_URL);
+                }
+            });
+        }
+    }
+
+    if (item.imageVariantId !== undefined && typeof item.imageVariantId !== 'string') {
+        issue('imageVariantId', 'must be a string');
+    } else if (item.imageVariantId && !(Array.isArray(item.imageHistory) && item.imageHistory.some(variant => isRecord(variant) && variant.id === item.imageVariantId))) {
+        issue('imageVariantId', 'does not match any imageHistory variant');
+    }
+
+    for (const field of ['prompt', 'styleId', 'language']) {
+        if (item[field] !== undefined && typeof item[field] !== 'string') {
+            issue(field, 'must be a string');
+        }
+    }
+    if (item.tags !== undefined && typeof item.tags !== 'string' && !Array.isArray(item.tags)) {
+        issue('tags', 'must be an array of strings');
+    }
+    return issues;
+}
+
+/**
+ * Checks every card and normalizes the valid ones. Invalid cards are left out
+ * of `cards` and described in `issues`, so callers can choose between a partial
+ * import and rejecting the file.
+ */
+export function validateCards(data: unknown[], options: ValidateCardsOptions = {}): { cards: FlashcardItem[]; issues: CardValidationIssue[] } {
+    const seenIds = new Map<string, number>();
+    const cards: FlashcardItem[] = [];
+    const issues: CardValidationIssue[] = [];
+
+    data.forEach((item, index) => {
+        const cardIssues = checkCard(item, index, seenIds, options.objectUrls);
+        if (cardIssues.length > 0 || !isRecord(item)) {
+            issues.push(...cardIssues);
+            return;
+        }
+        // checkCard has confirmed the types of the fields read below.
+        const id = String(item.id);
+        const imageHistory = parseImageHistory(item.imageHistory);
+        const selectedVariant = item.imageVariantId ? imageHistory?.find(variant => variant.id === item.imageVariantId) : undefined;
+        cards.push({
+            id,
+            text: item.text as string,
+            audioUrl: item.audioUrl as string,
+            imageUrl: selectedVariant?.url ?? ((item.imageUrl as string | null | undefined) || null),
+            isLoading: false, // Always reset loading state on import
+            schedule: parseSchedule(item.schedule),
+            prompt: (item.prompt as string | undefined) || undefined,
+            imageHistory,
+            styleId: item.styleId as string | undefined,
+            practiceAttempts: parsePracticeAttempts(item.practiceAttempts, id),
+            tags: parseTags(item.tags),
+            createdAt: typeof item.createdAt === 'number' ? item.createdAt : undefined,
+            language: (item.language as string | undefined) || undefined,
+            recordings: parseRecordings(item.recordings),
+        });
+    });
+    return { cards, issues };
+}
+
+export const countInvalidCards = (issues: CardValidationIssue[]): number =>
+    new Set(issues.map(issue => issue.index)).size;
+
+// "Card #3: audioUrl is required; Card #7: id duplicates the id of card #2; …and 4 more"
+export function formatValidationIssues(issues: CardValidationIssue[], limit = 5): string {
+    const shown = issues.slice(0, limit).map(issue => `Card #${issue.index + 1}: ${issue.field} ${issue.reason}`);
+    if (issues.length > limit) {
+        shown.push(`…and ${issues.length - limit} more`);
+    }
+    return shown.join('; ');
+}
@@ -0,0 +1,121 @@
+import { AUDIO_URLS, DEFAULT_DECK_NAME } from "../constants";
+import type { CardRecording, Deck, FlashcardItem, ImageVariant } from "../types";
+import { filenameToText } from "./filenameText";
+import { isRecord } from "./typeGuards";
+
+export function createDeck(name: string, description = '', cards: FlashcardItem[] = []): Deck {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        name,
+        description,
+        cards,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+export function duplicateDeck(deck: Deck): Deck {
+    return createDeck(
+        `${deck.name} (copy)`,
+        deck.description,
+        deck.cards.map(card => ({ ...card, isLoading: false, queuedPrompt: undefined })),
+    );
+}
+
+export function buildDefaultDeck(): Deck {
+    const cards = AUDIO_URLS.map(url => ({
+        id: url,
+        text: filenameToText(url),
+        audioUrl: url,
+        imageUrl: null,
+        isLoading: false,
+    }));
+    return createDeck(DEFAULT_DECK_NAME, '', cards);
+}
+
+// Turns "My Deck (copy)" into "my-deck-copy" for use in download filenames.
+export const slugify = (name: string): string =>
+    name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'deck';
+
+/**
+ * Records a newly generated image as the card's chosen variant. An existing
+ * image that predates the history is kept as the first variant so it isn't lost.
+ */
+export function addImageVariant(card: FlashcardItem, url: string, prompt: string): FlashcardItem {
+    const history = card.imageHistory ?? [];
+    const previous = card.imageUrl && !history.some(variant => variant.url === card.imageUrl)
+        ? [{ id: crypto.randomUUID(), url: card.imageUrl, prompt: card.prompt || card.text, createdAt: Date.now() - 1 }]
+        : [];
+    const variant: ImageVariant = { id: crypto.randomUUID(), url, prompt, createdAt: Date.now() };
+    return { ...card, imageUrl: url, imageHistory: [...history, ...previous, variant] };
+}
+
+// Recordings kept per card; the oldest are dropped first.
+export const MAX_RECORDINGS_PER_CARD = 5;
+
+export function addRecording(card: FlashcardItem, url: string, durationMs: number): FlashcardItem {
+    const recording: CardRecording = { id: crypto.randomUUID(), url, durationMs, createdAt: Date.now() };
+    return { ...card, recordings: [...(card.recordings ?? []), recording].slice(-MAX_RECORDINGS_PER_CARD) };
+}
+
+// Keeps only well-formed recordings from imported data.
+export function parseRecordings(value: unknown): CardRecording[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const recordings = value
+        .filter((recording): recording is Record<string, unknown> & { url: string } =>
+            isRecord(recording) && typeof recording.url === 'string' && recording.url !== '')
+        .map(recording => ({
+            id: typeof recording.id === 'string' ? recording.id : crypto.randomUUID(),
+            url: recording.url,
+            durationMs: typeof recording.durationMs === 'number' ? recording.durationMs : 0,
+            createdAt: typeof recording.createdAt === 'number' ? recording.createdAt : Date.now(),
+        }));
+    return recordings.length > 0 ? recordings : undefined;
+}
+
+// Keeps only well-formed variants from imported data.
+export function parseImageHistory(value: unknown): ImageVariant[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    return value
+        .filter((variant): variant is Record<string, unknown> & { url: string } =>
+            isRecord(variant) && typeof variant.url === 'string')
+        .map(variant => ({
+            id: typeof variant.id === 'string' ? variant.id : crypto.randomUUID(),
+            url: variant.url,
+            prompt: typeof variant.prompt === 'string' ? variant.prompt : '',
+            createdAt: typeof variant.createdAt === 'number' ? variant.createdAt : Date.now(),
+        }));
+}
+
+// Accepts an array of strings or a ";"-separated string.
+export function parseTags(value: unknown): string[] | undefined {
+    const tags: string[] = Array.isArray(value)
+        ? value.filter((tag): tag is string => typeof tag === 'string')
+        : typeof value === 'string' ? value.split(';') : [];
+    const cleaned = [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+    return cleaned.length > 0 ? cleaned : undefined;
+}
+
+export function createCard(text: string, audioUrl = '', tags?: string[]): FlashcardItem {
+    return {
+        id: crypto.randomUUID(),
+        text,
+        audioUrl,
+        imageUrl: null,
+        isLoading: false,
+        tags: tags && tags.length > 0 ? tags : undefined,
+        createdAt: Date.now(),
+    };
+}
+
+// Moves the card `fromId` into the position currently held by `toId`.
+export function moveCard(cards: FlashcardItem[], fromId: string, toId: string): FlashcardItem[] {
+    const from = cards.findIndex(card => card.id === fromId);
+    const to = cards.findIndex(card => card.id === toId);
+    if (from === -1 || to === -1 || from === to) return cards;
+    const next = [...cards];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+}
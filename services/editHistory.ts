@@ -0,0 +1,48 @@
+import type { FlashcardItem } from "../types";
+
+// The cards of one deck as they were before an edit.
+export interface EditSnapshot {
+    deckId: string;
+    cards: FlashcardItem[];
+}
+
+export interface EditHistory {
+    past: EditSnapshot[];
+    future: EditSnapshot[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const HISTORY_LIMIT = 100;
+
+// Records the state before a new edit. A new edit clears the redo stack.
+export function recordEdit(history: EditHistory, snapshot: EditSnapshot): EditHistory {
+    return { past: [...history.past, snapshot].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Brings back the snapshot's cards (their text, tags, order and which ones
+ * exist) while keeping what happened to them since: generated images and
+ * audio, recordings, study progress and practice attempts are not edits and
+ * aren't undone.
+ */
+export function restoreCards(snapshot: FlashcardItem[], current: FlashcardItem[]): FlashcardItem[] {
+    const currentById = new Map(current.map(card => [card.id, card]));
+    return snapshot.map(card => {
+        const live = currentById.get(card.id);
+        if (!live) return card;
+        return {
+            ...card,
+            isLoading: live.isLoading,
+            generationError: live.generationError,
+            queuedPrompt: live.queuedPrompt,
+            imageUrl: live.imageUrl,
+            thumbnailUrl: live.thumbnailUrl,
+            imageHistory: live.imageHistory,
+            audioUrl: card.audioUrl || live.audioUrl,
+            schedule: live.schedule,
+            practiceAttempts: live.practiceAttempts,
+            recordings: live.recordings,
+        };
+    });
+}
@@ -0,0 +1,40 @@
+import type { CardValidationIssue } from "../types";
+
+// Error thrown by image providers. `status` carries the HTTP status code when
+// the failure came from the upstream API, so callers can decide whether to retry.
+export class ImageGenerationError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ImageGenerationError';
+        this.status = status;
+    }
+}
+
+// Thrown for queued work that was cancelled before it finished.
+export class CancelledError extends Error {
+    constructor(message = 'Cancelled.') {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
+// Thrown when an imported deck contains cards that failed validation.
+export class DeckValidationError extends Error {
+    issues: CardValidationIssue[];
+
+    constructor(message: string, issues: CardValidationIssue[]) {
+        super(message);
+        this.name = 'DeckValidationError';
+        this.issues = issues;
+    }
+}
+
+// Rate limits and server-side failures are worth retrying; bad requests are not.
+export function isRetryableError(error: unknown): boolean {
+    if (error instanceof ImageGenerationError && error.status !== undefined) {
+        return error.status === 429 || error.status >= 500;
+    }
+    return error instanceof TypeError; // fetch() network failures
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { FilenameTextRules } from "../types";
+import { DEFAULT_FILENAME_TEXT_RULES, filenameToText } from "./filenameText";
+
+const rules = (overrides: Partial<FilenameTextRules>): FilenameTextRules => ({
+    ...DEFAULT_FILENAME_TEXT_RULES,
+    ...overrides,
+});
+
+describe('filenameToText', () => {
+    it('decodes the filename and drops the extension', () => {
+        expect(filenameToText('see%20a%20doctor.mp3')).toBe('See a doctor');
+    });
+
+    it('uses only the last path segment of a URL', () => {
+        expect(filenameToText('https://example.com/audio/unit1/bread.mp3?raw=true#t=1')).toBe('Bread');
+    });
+
+    it.each([
+        ['01 - bread.mp3'],
+        ['3. bread.mp3'],
+        ['002_bread.mp3'],
+        ['12) bread.mp3'],
+        ['7 bread.mp3'],
+    ])('strips the numbering from "%s"', filename => {
+        expect(filenameToText(filename)).toBe('Bread');
+    });
+
+    it('keeps the numbering when asked to', () => {
+        expect(filenameToText('03_bread.mp3', rules({ stripNumbering: false }))).toBe('03 bread');
+    });
+
+    it('leaves a name that is only a number alone', () => {
+        expect(filenameToText('2024.mp3')).toBe('2024');
+        expect(filenameToText('07 .mp3')).toBe('07');
+    });
+
+    it('strips the prefix case-insensitively, before the numbering', () => {
+        expect(filenameToText('Lesson2_03_bread.mp3', rules({ stripPrefix: 'lesson2_' }))).toBe('Bread');
+    });
+
+    it('treats the prefix literally rather than as a pattern', () => {
+        expect(filenameToText('a.b bread.mp3', rules({ stripPrefix: 'a.b ' }))).toBe('Bread');
+        expect(filenameToText('axb bread.mp3', rules({ stripPrefix: 'a.b ' }))).toBe('Axb bread');
+    });
+
+    it('collapses underscores and repeated spaces', () => {
+        expect(filenameToText('good__morning  everyone.mp3')).toBe('Good morning everyone');
+    });
+
+    it.each<[FilenameTextRules['capitalization'], string]>([
+        ['first', 'Good Morning, mr. Smith'],
+        ['sentence', 'Good morning, mr. smith'],
+        ['title', 'Good Morning, Mr. Smith'],
+        ['lower', 'good morning, mr. smith'],
+        ['keep', 'good Morning, mr. Smith'],
+    ])('applies "%s" capitalization', (capitalization, expected) => {
+        expect(filenameToText('good_Morning, mr. Smith.mp3', rules({ capitalization }))).toBe(expected);
+    });
+
+    it('capitalizes letters outside ASCII in title case', () => {
+        expect(filenameToText('élan vital.mp3', rules({ capitalization: 'title' }))).toBe('Élan Vital');
+    });
+
+    it('keeps a stray "%" that is not an escape sequence', () => {
+        expect(filenameToText('100% sure.mp3')).toBe('100% sure');
+    });
+});
@@ -0,0 +1,50 @@
+import type { FilenameTextRules } from "../types";
+
+export const DEFAULT_FILENAME_TEXT_RULES: FilenameTextRules = {
+    capitalization: 'first',
+    stripNumbering: true,
+    stripPrefix: '',
+};
+
+// "01 - ", "3. ", "002_", "12)" at the start of a filename.
+const NUMBERING = /^\s*\d+(\s*[-_.)]+\s*|\s+)/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turns an audio filename (or URL) into card text, e.g.
+ * "03_see%20a%20doctor.mp3" -> "See a doctor".
+ */
+export function filenameToText(filename: string, rules: FilenameTextRules = DEFAULT_FILENAME_TEXT_RULES): string {
+    const base = filename.split(/[?#]/)[0].split('/').pop() || '';
+    let text: string;
+    try {
+        text = decodeURIComponent(base);
+    } catch {
+        text = base; // A stray "%" that isn't an escape sequence.
+    }
+    text = text.replace(/\.[a-z0-9]{2,4}$/i, '');
+
+    if (rules.stripPrefix) {
+        text = text.replace(new RegExp(`^${escapeRegExp(rules.stripPrefix)}`, 'i'), '');
+    }
+    if (rules.stripNumbering) {
+        // Leave names that are only a number ("2024.mp3") alone.
+        const stripped = text.replace(NUMBERING, '');
+        if (stripped.trim()) text = stripped;
+    }
+    text = text.replace(/[_\s]+/g, ' ').trim();
+
+    switch (rules.capitalization) {
+        case 'first':
+            return text.charAt(0).toUpperCase() + text.slice(1);
+        case 'sentence':
+            return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+        case 'title':
+            return text.replace(/(^|\s)(\p{L})/gu, (_, space, letter) => space + letter.toUpperCase());
+        case 'lower':
+            return text.toLowerCase();
+        default:
+            return text;
+    }
+}
@@ -0,0 +1,51 @@
+import type { ImageProvider } from "../types";
+import { ImageGenerationError } from "./errors";
+
+interface ProxyImageResponse {
+    imageUrl?: string;
+    error?: string;
+}
+
+// Generates Gemini images through the proxy in `server/`, which holds the API
+// key so it never reaches the browser.
+export function createGeminiProxyImageProvider(proxyUrl: string): ImageProvider {
+    return {
+        id: 'gemini',
+        label: 'Gemini (Imagen 3) via proxy',
+        async generateImage({ prompt, negativePrompt, aspectRatio, outputMimeType, signal }) {
+            try {
+                const response = await fetch(`${proxyUrl.replace(/\/+$/, '')}/api/images`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ prompt, negativePrompt, aspectRatio, outputMimeType }),
+                    signal,
+                });
+                const result: ProxyImageResponse = await response.json().catch(() => ({}));
+                if (!response.ok) {
+                    throw new ImageGenerationError(
+                        result.error ?? `Gemini proxy Error: ${response.status} ${response.statusText}`,
+                        response.status,
+                    );
+                }
+                if (!result.imageUrl) {
+                    throw new Error("No images were generated by the API.");
+                }
+                return result.imageUrl;
+
+            } catch (error) {
+                console.error("Error calling Gemini proxy:", error);
+                if (error instanceof ImageGenerationError || signal?.aborted) {
+                    throw error;
+                }
+                if (error instanceof TypeError) {
+                    // Network failure; keep the type so the queue knows it can retry.
+                    throw new TypeError(`Gemini proxy Error: ${error.message}`);
+                }
+                if (error instanceof Error) {
+                    throw new Error(`Gemini proxy Error: ${error.message}`);
+                }
+                throw new Error("An unknown error occurred while generating the image.");
+            }
+        },
+    };
+}
@@ -1,36 +1,56 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { ImageProvider } from "../types";
+import { ImageGenerationError } from "./errors";
 
-import { GoogleGenAI } from "@google/genai";
+export function createGeminiImageProvider(apiKey: string | undefined): ImageProvider {
+    let ai: GoogleGenAI | null = null;
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
+    return {
+        id: 'gemini',
+        label: 'Gemini (Imagen 3)',
+        async generateImage({ prompt, negativePrompt, aspectRatio, outputMimeType, signal }) {
+            if (!apiKey) {
+                throw new ImageGenerationError("Gemini API key is not set. Add a key or proxy URL in Settings, or choose another provider.");
+            }
+            ai ??= new GoogleGenAI({ apiKey });
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            try {
+                const response = await ai.models.generateImages({
+                    model: 'imagen-3.0-generate-002',
+                    // Imagen 3 rejects the negativePrompt config field, so fold it into the prompt.
+                    prompt: negativePrompt ? `${prompt}\nAvoid: ${negativePrompt}` : prompt,
+                    config: {
+                        numberOfImages: 1,
+                        outputMimeType,
+                        aspectRatio,
+                        abortSignal: signal,
+                    },
+                });
 
-export async function generateImageFromPrompt(prompt: string): Promise<string> {
-    try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-3.0-generate-002',
-            prompt: prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '1:1',
-            },
-        });
-        
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-            return `data:image/jpeg;base64,${base64ImageBytes}`;
-        } else {
-            throw new Error("No images were generated by the API.");
-        }
+                if (response.generatedImages && response.generatedImages.length > 0) {
+                    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
+                    return `data:${outputMimeType};base64,${base64ImageBytes}`;
+                } else {
+                    throw new Error("No images were generated by the API.");
+                }
 
-    } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        if (error instanceof Error) {
-            throw new Error(`Gemini API Error: ${error.message}`);
-        }
-        throw new Error("An unknown error occurred while generating the image.");
-    }
+            } catch (error) {
+                console.error("Error calling Gemini API:", error);
+                if (signal?.aborted) {
+                    throw error;
+                }
+                if (error instanceof TypeError) {
+                    // Network failure; keep the type so the queue can retry or wait for the connection.
+                    throw new TypeError(`Gemini API Error: ${error.message}`);
+                }
+                if (error instanceof ApiError) {
+                    throw new ImageGenerationError(`Gemini API Error: ${error.message}`, error.status);
+                }
+                if (error instanceof Error) {
+                    throw new ImageGenerationError(`Gemini API Error: ${error.message}`);
+                }
+                throw new Error("An unknown error occurred while generating the image.");
+            }
+        },
+    };
 }
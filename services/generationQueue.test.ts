@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CancelledError, ImageGenerationError } from "./errors";
+import { createGenerationQueue } from "./generationQueue";
+
+const OPTIONS = { concurrency: 1, maxRetries: 2, baseDelayMs: 100 };
+
+// A task that stays running until its `finish` is called.
+function deferredTask() {
+    let finish: (value: string) => void = () => {};
+    const run = vi.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+    return { run, finish: (value: string) => finish(value) };
+}
+
+describe('createGenerationQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('retries retryable errors with doubling delays, up to maxRetries', async () => {
+        const queue = createGenerationQueue(OPTIONS);
+        const run = vi.fn().mockRejectedValue(new ImageGenerationError('Busy', 503));
+        const result = queue.enqueue('a', run);
+        const settled = expect(result).rejects.toThrow('Busy');
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(run).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(99);
+        expect(run).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(run).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(200);
+        expect(run).toHaveBeenCalledTimes(3);
+        await settled;
+        expect(queue.getProgress().status).toBe('idle');
+    });
+
+    it('does not retry errors that are not retryable', async () => {
+        const queue = createGenerationQueue(OPTIONS);
+        const run = vi.fn().mockRejectedValue(new ImageGenerationError('Bad request', 400));
+        await expect(queue.enqueue('a', run)).rejects.toThrow('Bad request');
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs no more jobs at once than the concurrency limit', async () => {
+        const queue = createGenerationQueue({ ...OPTIONS, concurrency: 2 });
+        const tasks = [deferredTask(), deferredTask(), deferredTask()];
+        const results = tasks.map((task, i) => queue.enqueue(String(i), task.run));
+
+        expect(tasks.map(task => task.run.mock.calls.length)).toEqual([1, 1, 0]);
+        tasks[0].finish('done');
+        await results[0];
+        await vi.advanceTimersByTimeAsync(0);
+        expect(tasks[2].run).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a second job for an id that is already queued', async () => {
+        const queue = createGenerationQueue(OPTIONS);
+        queue.enqueue('a', deferredTask().run);
+        await expect(queue.enqueue('a', deferredTask().run)).rejects.toThrow('already queued');
+    });
+
+    it('starts nothing while paused, and resumes where it left off', async () => {
+        const queue = createGenerationQueue(OPTIONS);
+        queue.pause();
+        const task = deferredTask();
+        queue.enqueue('a', task.run);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(task.run).not.toHaveBeenCalled();
+        expect(queue.getProgress().status).toBe('paused');
+
+        queue.resume();
+        expect(task.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('starts nothing while offline', async () => {
+        const queue = createGenerationQueue(OPTIONS);
+        queue.setOnline(false);
+        const task = deferredTask();
+        queue.enqueue('a', task.run);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(task.run).not.toHaveBeenCalled();
+        expect(queue.getProgress().status).toBe('offline');
+
+        queue.setOnline(true);
+        expect(task.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('replays a job cut off by a lost connection without using a retry', async () => {
+        const queue = createGenerationQueue({ ...OPTIONS, maxRetries: 0 });
+        const run = vi.fn()
+            .mockImplementationOnce(async () => {
+                queue.setOnline(false);
+                throw new TypeError('Failed to fetch');
+            })
+            .mockResolvedValueOnce('image');
+        const result = queue.enqueue('a', run);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(run).toHaveBeenCalledTimes(1);
+        queue.setOnline(true);
+        await expect(result).resolves.toBe('image');
+        expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('cancel drops pending jobs and aborts running ones', async () => {
+        const queue = createGenerationQueue(OPTIONS);
+        let signal: AbortSignal | undefined;
+        const running = queue.enqueue('a', s => {
+            signal = s;
+            return new Promise((_, reject) => s.addEventListener('abort', () => reject(new Error('aborted'))));
+        });
+        const pendingTask = deferredTask();
+        const pending = queue.enqueue('b', pendingTask.run);
+
+        queue.cancel();
+        await expect(pending).rejects.toBeInstanceOf(CancelledError);
+        await expect(running).rejects.toBeInstanceOf(CancelledError);
+        expect(signal?.aborted).toBe(true);
+        expect(pendingTask.run).not.toHaveBeenCalled();
+        expect(queue.has('b')).toBe(false);
+    });
+});
@@ -0,0 +1,189 @@
+import type { GenerationProgress } from "../types";
+import { CancelledError, isRetryableError } from "./errors";
+
+export interface GenerationQueueOptions {
+    concurrency: number;
+    maxRetries: number;
+    // First retry waits this long; each further retry doubles it.
+    baseDelayMs: number;
+}
+
+type Task<T> = (signal: AbortSignal) => Promise<T>;
+
+interface Job {
+    id: string;
+    run: Task<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    controller: AbortController;
+}
+
+export interface GenerationQueue {
+    /**
+     * Queues a task. Jobs with an id already queued or running are rejected
+     * so the same card is never generated twice at once.
+     */
+    enqueue<T>(id: string, run: Task<T>): Promise<T>;
+    configure(options: Partial<GenerationQueueOptions>): void;
+    pause(): void;
+    resume(): void;
+    /**
+     * While offline no new jobs start, and jobs that fail with a network
+     * error wait for the connection instead of using up their retries.
+     */
+    setOnline(isOnline: boolean): void;
+    /** Drops every pending job and aborts the ones in flight. */
+    cancel(): void;
+    has(id: string): boolean;
+    getProgress(): GenerationProgress;
+    subscribe(listener: (progress: GenerationProgress) => void): () => void;
+}
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new CancelledError());
+        }, { once: true });
+    });
+
+export function createGenerationQueue(initialOptions: GenerationQueueOptions): GenerationQueue {
+    let options = { ...initialOptions };
+    let isPaused = false;
+    let isOffline = false;
+    // Resolved when the connection comes back.
+    let onlineWaiters: (() => void)[] = [];
+    const pending: Job[] = [];
+    const active = new Map<string, Job>();
+    const listeners = new Set<(progress: GenerationProgress) => void>();
+    // Totals for the current batch; reset once the queue drains.
+    let total = 0;
+    let completed = 0;
+    let failed = 0;
+
+    const getProgress = (): GenerationProgress => ({
+        status: active.size === 0 && pending.length === 0 ? 'idle' : isPaused ? 'paused' : isOffline ? 'offline' : 'running',
+        total,
+        completed,
+        failed,
+        active: active.size,
+    });
+
+    const notify = () => {
+        const progress = getProgress();
+        listeners.forEach(listener => listener(progress));
+    };
+
+    const waitForOnline = (signal: AbortSignal): Promise<void> =>
+        new Promise((resolve, reject) => {
+            onlineWaiters.push(resolve);
+            signal.addEventListener('abort', () => reject(new CancelledError()), { once: true });
+        });
+
+    async function runWithRetry(job: Job): Promise<unknown> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await job.run(job.controller.signal);
+            } catch (error) {
+                if (job.controller.signal.aborted) {
+                    throw new CancelledError();
+                }
+                if (isOffline && error instanceof TypeError) {
+                    // Lost the connection mid-request; replay it once we're back.
+                    await waitForOnline(job.controller.signal);
+                    attempt--;
+                    continue;
+                }
+                if (attempt >= options.maxRetries || !isRetryableError(error)) {
+                    throw error;
+                }
+                const delay = options.baseDelayMs * 2 ** attempt;
+                console.warn(`Retrying "${job.id}" in ${delay}ms after error:`, error);
+                await wait(delay, job.controller.signal);
+            }
+        }
+    }
+
+    function pump() {
+        while (!isPaused && !isOffline && active.size < options.concurrency && pending.length > 0) {
+            const job = pending.shift() as Job;
+            active.set(job.id, job);
+            runWithRetry(job)
+                .then(value => {
+                    completed++;
+                    job.resolve(value);
+                }, error => {
+                    if (!(error instanceof CancelledError)) failed++;
+                    job.reject(error);
+                })
+                .finally(() => {
+                    active.delete(job.id);
+                    if (active.size === 0 && pending.length === 0) {
+                        total = completed = failed = 0;
+                    }
+                    pump();
+                    notify();
+                });
+        }
+        notify();
+    }
+
+    return {
+        enqueue<T>(id: string, run: Task<T>): Promise<T> {
+            if (active.has(id) || pending.some(job => job.id === id)) {
+                return Promise.reject(new Error(`"${id}" is already queued.`));
+            }
+            return new Promise<T>((resolve, reject) => {
+                pending.push({
+                    id,
+                    run,
+                    resolve: resolve as (value: unknown) => void,
+                    reject,
+                    controller: new AbortController(),
+                });
+                total++;
+                pump();
+            });
+        },
+        configure(newOptions) {
+            options = { ...options, ...newOptions };
+            pump();
+        },
+        pause() {
+            isPaused = true;
+            notify();
+        },
+        resume() {
+            isPaused = false;
+            pump();
+        },
+        setOnline(isOnline) {
+            if (isOffline === !isOnline) return;
+            isOffline = !isOnline;
+            if (isOnline) {
+                const waiters = onlineWaiters;
+                onlineWaiters = [];
+                waiters.forEach(resume => resume());
+            }
+            pump();
+        },
+        cancel() {
+            const dropped = pending.splice(0);
+            dropped.forEach(job => job.reject(new CancelledError()));
+            active.forEach(job => job.controller.abort());
+            total -= dropped.length;
+            if (active.size === 0) {
+                total = completed = failed = 0;
+            }
+            isPaused = false;
+            notify();
+        },
+        has: id => active.has(id) || pending.some(job => job.id === id),
+        getProgress,
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
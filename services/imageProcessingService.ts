@@ -0,0 +1,149 @@
+import type { CropRect, ImageOutputFormat, ImageProcessingOptions } from "../types";
+import { blobToObjectUrl, urlToBlob } from "./storageService";
+
+export const IMAGE_FORMAT_OPTIONS: { id: ImageOutputFormat; label: string }[] = [
+    { id: 'webp', label: 'WebP' },
+    { id: 'avif', label: 'AVIF' },
+];
+
+// Longest side of grid thumbnails in pixels, enough to stay sharp on high-DPI screens.
+export const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Width divided by height of the image area on a card (Card shows it square).
+export const CARD_ASPECT_RATIO = 1;
+
+export interface ProcessedImage {
+    imageUrl: string;
+    thumbnailUrl?: string;
+}
+
+// Vector images are already small and would only lose sharpness as bitmaps.
+const isVector = (blob: Blob) => blob.type === 'image/svg+xml';
+
+function scaleToFit(width: number, height: number, maxDimension: number): { width: number; height: number } {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function drawRegion(source: ImageBitmap, region: CropRect, width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas is not supported in this browser.");
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+    return canvas;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Encodes in the chosen format, falling back to WebP and then JPEG. Browsers
+ * without an encoder for a type quietly return a PNG, so the result's type
+ * tells whether it worked.
+ */
+async function encode(canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number): Promise<Blob> {
+    for (const type of [`image/${format}`, 'image/webp', 'image/jpeg']) {
+        const blob = await canvasToBlob(canvas, type, quality);
+        if (blob?.type === type) return blob;
+    }
+    throw new Error("This browser can't encode images.");
+}
+
+/**
+ * Crops (optionally), scales down and re-encodes an image, and makes its grid
+ * thumbnail. An uncropped image that re-encoding wouldn't shrink is kept as is.
+ */
+export async function processImageBlob(
+    blob: Blob,
+    options: ImageProcessingOptions,
+    crop?: CropRect,
+): Promise<{ image: Blob; thumbnail: Blob }> {
+    const bitmap = await createImageBitmap(blob);
+    try {
+        const region = crop ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+        const size = scaleToFit(region.width, region.height, options.maxDimension);
+        let image = await encode(drawRegion(bitmap, region, size.width, size.height), options.format, options.quality);
+        if (!crop && size.width === bitmap.width && image.size >= blob.size) {
+            image = blob;
+        }
+        const thumbnailSize = scaleToFit(region.width, region.height, THUMBNAIL_SIZE);
+        const thumbnail = await encode(drawRegion(bitmap, region, thumbnailSize.width, thumbnailSize.height), options.format, THUMBNAIL_QUALITY);
+        return { image, thumbnail };
+    } finally {
+        bitmap.close();
+    }
+}
+
+/**
+ * Runs a generated image through the pipeline. Images that can't be read
+ * back (another site's, without CORS) or are vector graphics keep their
+ * original URL and get no thumbnail.
+ */
+export async function processImageUrl(url: string, options: ImageProcessingOptions): Promise<ProcessedImage> {
+    try {
+        const blob = await urlToBlob(url);
+        if (isVector(blob)) return { imageUrl: url };
+        const { image, thumbnail } = await processImageBlob(blob, options);
+        return { imageUrl: blobToObjectUrl(image), thumbnailUrl: blobToObjectUrl(thumbnail) };
+    } catch (error) {
+        console.warn("Could not process image; keeping the original:", error);
+        return { imageUrl: url };
+    }
+}
+
+/**
+ * Makes the grid thumbnail for an image stored before thumbnails existed, or
+ * imported from a file. Null when the image can't have one.
+ */
+export async function createThumbnail(url: string, options: ImageProcessingOptions): Promise<string | null> {
+    try {
+        const blob = await urlToBlob(url);
+        if (isVector(blob)) return null;
+        const bitmap = await createImageBitmap(blob);
+        try {
+            const region = { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+            const size = scaleToFit(bitmap.width, bitmap.height, THUMBNAIL_SIZE);
+            return blobToObjectUrl(await encode(drawRegion(bitmap, region, size.width, size.height), options.format, THUMBNAIL_QUALITY));
+        } finally {
+            bitmap.close();
+        }
+    } catch (error) {
+        console.warn("Could not create a thumbnail:", error);
+        return null;
+    }
+}
+
+// The largest region of the given shape that fits the image, centered.
+export function centeredCrop(imageWidth: number, imageHeight: number, aspectRatio: number): CropRect {
+    const width = Math.min(imageWidth, imageHeight * aspectRatio);
+    const height = width / aspectRatio;
+    return { x: (imageWidth - width) / 2, y: (imageHeight - height) / 2, width, height };
+}
+
+/**
+ * The crop for a zoom level (1 = the largest region that fits) centered as
+ * close to (centerX, centerY) as the image edges allow.
+ */
+export function cropAt(
+    imageWidth: number,
+    imageHeight: number,
+    aspectRatio: number,
+    zoom: number,
+    centerX: number,
+    centerY: number,
+): CropRect {
+    const largest = centeredCrop(imageWidth, imageHeight, aspectRatio);
+    const width = largest.width / zoom;
+    const height = largest.height / zoom;
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    return {
+        x: clamp(centerX - width / 2, imageWidth - width),
+        y: clamp(centerY - height / 2, imageHeight - height),
+        width,
+        height,
+    };
+}
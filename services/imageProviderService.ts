@@ -0,0 +1,30 @@
+import type { AppSettings, ImageProvider, ImageProviderId } from "../types";
+import { createGeminiProxyImageProvider } from "./geminiProxyService";
+import { createGeminiImageProvider } from "./geminiService";
+import { createOpenAiImageProvider } from "./openAiImageService";
+import { createPlaceholderImageProvider } from "./placeholderImageService";
+
+export const IMAGE_PROVIDER_OPTIONS: { id: ImageProviderId; label: string }[] = [
+    { id: 'gemini', label: 'Gemini (Imagen 3)' },
+    { id: 'openai', label: 'OpenAI-compatible' },
+    { id: 'placeholder', label: 'Offline placeholder' },
+];
+
+export function createImageProvider(settings: AppSettings): ImageProvider {
+    switch (settings.imageProvider) {
+        case 'gemini':
+            // The proxy keeps the key server-side; without one, use the key entered in Settings.
+            return settings.geminiProxyUrl
+                ? createGeminiProxyImageProvider(settings.geminiProxyUrl)
+                : createGeminiImageProvider(settings.geminiApiKey);
+        case 'openai':
+            return createOpenAiImageProvider({
+                baseUrl: settings.openAiBaseUrl,
+                apiKey: settings.openAiApiKey,
+                model: settings.openAiModel,
+            });
+        case 'placeholder':
+        default:
+            return createPlaceholderImageProvider();
+    }
+}
@@ -0,0 +1,62 @@
+import type { DeckDocument, DeckFormat } from "../types";
+import { DECK_SCHEMA_VERSION, migrateDeckDocument, validateCards } from "./deckSchema";
+import { inlineObjectUrl } from "./storageService";
+
+// The app's own format: a versioned deck document (see deckSchema) with stored
+// images and audio inlined as data URLs.
+export const jsonDeckFormat: DeckFormat = {
+    id: 'json',
+    label: 'JSON',
+    extension: '.json',
+    mimeType: 'application/json',
+
+    async exportDeck(deck) {
+        const cards = await Promise.all(deck.cards.map(async card => {
+            // A chosen variant is referenced by id rather than inlined a second time.
+            const selectedVariant = card.imageHistory?.find(variant => variant.url === card.imageUrl);
+            return {
+                ...card,
+                audioUrl: await inlineObjectUrl(card.audioUrl),
+                imageUrl: selectedVariant ? null : card.imageUrl && await inlineObjectUrl(card.imageUrl),
+                imageVariantId: selectedVariant?.id,
+                // Thumbnails are made again on import; leaving them out keeps the file small.
+                thumbnailUrl: undefined,
+                imageHistory: card.imageHistory && await Promise.all(card.imageHistory.map(async variant => ({
+                    ...variant,
+                    url: await inlineObjectUrl(variant.url),
+                }))),
+                recordings: card.recordings && await Promise.all(card.recordings.map(async recording => ({
+                    ...recording,
+                    url: await inlineObjectUrl(recording.url),
+                }))),
+                isLoading: false,
+                queuedPrompt: undefined,
+            };
+        }));
+        const document: DeckDocument = {
+            version: DECK_SCHEMA_VERSION,
+            name: deck.name,
+            description: deck.description,
+            language: deck.language,
+            ignoreDiacritics: deck.ignoreDiacritics,
+            tts: deck.tts,
+            defaultStyleId: deck.defaultStyleId,
+            exportedAt: new Date().toISOString(),
+            cards,
+        };
+        return new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+    },
+
+    async importDeck(file, name) {
+        const document = migrateDeckDocument(JSON.parse(await file.text()));
+        return {
+            name: document.name || name,
+            description: document.description,
+            language: document.language,
+            ignoreDiacritics: document.ignoreDiacritics,
+            tts: document.tts,
+            defaultStyleId: document.defaultStyleId,
+            ...validateCards(document.cards),
+        };
+    },
+};
@@ -0,0 +1,58 @@
+import type { Deck, FlashcardItem, TextNormalization, TtsVoiceSettings } from "../types";
+import { DEFAULT_TTS_VOICE } from "./ttsProviderService";
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+// Suggestions only; any BCP 47 tag the browser understands works.
+export const LANGUAGE_OPTIONS: { id: string; label: string }[] = [
+    { id: 'en-US', label: 'English (US)' },
+    { id: 'en-GB', label: 'English (UK)' },
+    { id: 'es-ES', label: 'Spanish (Spain)' },
+    { id: 'es-MX', label: 'Spanish (Mexico)' },
+    { id: 'fr-FR', label: 'French' },
+    { id: 'de-DE', label: 'German' },
+    { id: 'it-IT', label: 'Italian' },
+    { id: 'pt-BR', label: 'Portuguese (Brazil)' },
+    { id: 'nl-NL', label: 'Dutch' },
+    { id: 'pl-PL', label: 'Polish' },
+    { id: 'tr-TR', label: 'Turkish' },
+    { id: 'ru-RU', label: 'Russian' },
+    { id: 'el-GR', label: 'Greek' },
+    { id: 'ar-SA', label: 'Arabic' },
+    { id: 'he-IL', label: 'Hebrew' },
+    { id: 'hi-IN', label: 'Hindi' },
+    { id: 'vi-VN', label: 'Vietnamese' },
+    { id: 'ja-JP', label: 'Japanese' },
+    { id: 'ko-KR', label: 'Korean' },
+    { id: 'zh-CN', label: 'Chinese (Mandarin)' },
+];
+
+// "es-MX" -> "es"
+export const primaryLanguage = (tag: string): string => tag.split('-')[0].toLowerCase();
+
+/**
+ * The card's own language, then the deck's, then English.
+ */
+export function resolveCardLanguage(card: FlashcardItem, deck: Deck | null): string {
+    return card.language || deck?.language || DEFAULT_LANGUAGE;
+}
+
+export function normalizationFor(card: FlashcardItem, deck: Deck | null): TextNormalization {
+    return {
+        locale: resolveCardLanguage(card, deck),
+        ignoreDiacritics: !!deck?.ignoreDiacritics,
+    };
+}
+
+/**
+ * The deck's voice, speaking the card's language. A deck accent in the same
+ * language (say en-GB on an English deck) is kept; otherwise the language
+ * replaces it.
+ */
+export function resolveCardVoice(card: FlashcardItem, deck: Deck | null): TtsVoiceSettings {
+    const voice = deck?.tts ?? DEFAULT_TTS_VOICE;
+    if (!card.language && !deck?.language) return voice;
+    const language = resolveCardLanguage(card, deck);
+    if (primaryLanguage(voice.accent) === primaryLanguage(language)) return voice;
+    return { ...voice, accent: language };
+}
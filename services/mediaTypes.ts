@@ -0,0 +1,43 @@
+const EXTENSIONS: Record<string, string> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/ogg': 'ogg',
+    'audio/webm': 'webm',
+    'audio/mp4': 'm4a',
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+};
+
+const MIME_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    webm: 'audio/webm',
+    m4a: 'audio/mp4',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+};
+
+// Falls back to the URL's own extension, then to `fallback`.
+export function extensionFor(mimeType: string, url = '', fallback = 'bin'): string {
+    const base = mimeType.split(';')[0].trim().toLowerCase();
+    if (EXTENSIONS[base]) return EXTENSIONS[base];
+    const match = url.split(/[?#]/)[0].match(/\.([a-z0-9]{2,4})$/i);
+    return match && MIME_TYPES[match[1].toLowerCase()] ? match[1].toLowerCase() : fallback;
+}
+
+export function mimeTypeFor(filename: string): string {
+    const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+    return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
@@ -0,0 +1,96 @@
+// A compact implementation of Lawrence Philips' original Metaphone, good
+// enough to tell that "their"/"there" or "night"/"knight" sound alike.
+
+const VOWELS = 'AEIOU';
+const FRONT_VOWELS = 'EIY';
+const VARSON = 'CSPTG';
+
+export function metaphone(word: string): string {
+    let w = word.toUpperCase().replace(/[^A-Z]/g, '');
+    if (!w) return '';
+
+    // Initial letter exceptions.
+    if (/^(KN|GN|PN|AE|WR)/.test(w)) w = w.slice(1);
+    if (w[0] === 'X') w = 'S' + w.slice(1);
+    if (w.startsWith('WH')) w = 'W' + w.slice(2);
+
+    const at = (i: number) => w[i] ?? '';
+    const isVowel = (c: string) => c !== '' && VOWELS.includes(c);
+    let code = '';
+
+    for (let i = 0; i < w.length; i++) {
+        const c = w[i];
+        const prev = at(i - 1);
+        const next = at(i + 1);
+
+        // Skip doubled letters, except C.
+        if (c === prev && c !== 'C') continue;
+
+        switch (c) {
+            case 'A': case 'E': case 'I': case 'O': case 'U':
+                if (i === 0) code += c;
+                break;
+            case 'B':
+                if (!(prev === 'M' && i === w.length - 1)) code += 'B';
+                break;
+            case 'C':
+                if (next === 'I' && at(i + 2) === 'A') code += 'X';
+                else if (next === 'H') code += prev === 'S' ? 'K' : 'X';
+                else if (FRONT_VOWELS.includes(next) && next !== '') code += prev === 'S' ? '' : 'S';
+                else code += 'K';
+                break;
+            case 'D':
+                code += next === 'G' && FRONT_VOWELS.includes(at(i + 2)) && at(i + 2) !== '' ? 'J' : 'T';
+                break;
+            case 'G':
+                if (next === 'H') {
+                    // "GH" is silent ("night", "though") unless it starts the word ("ghost").
+                    if (i === 0) code += 'K';
+                } else if (next === 'N' && (i + 2 === w.length || (at(i + 2) === 'E' && at(i + 3) === 'D' && i + 4 === w.length))) {
+                    // Silent in "sign", "signed".
+                } else if (FRONT_VOWELS.includes(next) && next !== '' && prev !== 'G') {
+                    code += 'J';
+                } else {
+                    code += 'K';
+                }
+                break;
+            case 'H':
+                if (isVowel(next) && !VARSON.includes(prev)) code += 'H';
+                break;
+            case 'K':
+                if (prev !== 'C') code += 'K';
+                break;
+            case 'P':
+                code += next === 'H' ? 'F' : 'P';
+                break;
+            case 'Q':
+                code += 'K';
+                break;
+            case 'S':
+                if (next === 'H' || (next === 'I' && (at(i + 2) === 'O' || at(i + 2) === 'A'))) code += 'X';
+                else code += 'S';
+                break;
+            case 'T':
+                if (next === 'I' && (at(i + 2) === 'O' || at(i + 2) === 'A')) code += 'X';
+                else if (next === 'H') code += '0';
+                else if (!(next === 'C' && at(i + 2) === 'H')) code += 'T';
+                break;
+            case 'V':
+                code += 'F';
+                break;
+            case 'W': case 'Y':
+                if (isVowel(next)) code += c;
+                break;
+            case 'X':
+                code += 'KS';
+                break;
+            case 'Z':
+                code += 'S';
+                break;
+            default:
+                // F, J, L, M, N, R map to themselves.
+                code += c;
+        }
+    }
+    return code;
+}
@@ -0,0 +1,94 @@
+import type { Deck, DeckOfflineStatus } from "../types";
+
+// Shared with public/sw.js, which answers requests for these files from the cache.
+const MEDIA_CACHE = 'flashcards-media';
+
+export const isOfflineCacheSupported = typeof caches !== 'undefined';
+
+/**
+ * Registers the service worker that caches the app shell. Production only:
+ * in development it would serve stale modules over Vite's hot reload.
+ */
+export function registerServiceWorker(): void {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker
+            .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+            .catch(error => console.error("Service worker registration failed:", error));
+    });
+}
+
+// Blob and data URLs already live in IndexedDB; only web URLs need caching.
+const isWebUrl = (url: string | null | undefined): url is string => !!url && /^https?:/i.test(url);
+
+// Every web-hosted file the deck uses, including images in each card's history.
+export function deckMediaUrls(deck: Deck): string[] {
+    const urls = deck.cards.flatMap(card => [
+        card.audioUrl,
+        card.imageUrl,
+        ...(card.imageHistory ?? []).map(variant => variant.url),
+    ]);
+    return [...new Set(urls.filter(isWebUrl))];
+}
+
+// Cache keys are normalized URLs, e.g. with spaces percent-encoded.
+const cacheKey = (url: string): string => {
+    try {
+        return new URL(url).href;
+    } catch {
+        return url;
+    }
+};
+
+export async function getDeckOfflineStatus(deck: Deck): Promise<DeckOfflineStatus> {
+    const urls = deckMediaUrls(deck);
+    if (!isOfflineCacheSupported || urls.length === 0) return { cached: 0, total: urls.length };
+    const cache = await caches.open(MEDIA_CACHE);
+    const matches = await Promise.all(urls.map(url => cache.match(url)));
+    return { cached: matches.filter(Boolean).length, total: urls.length };
+}
+
+/**
+ * Downloads every web-hosted audio and image file the deck uses that isn't
+ * cached yet. Files that fail are skipped and reported in the status, so one
+ * dead link doesn't stop the rest.
+ */
+export async function cacheDeckMedia(deck: Deck, signal?: AbortSignal): Promise<DeckOfflineStatus> {
+    const urls = deckMediaUrls(deck);
+    if (!isOfflineCacheSupported) return { cached: 0, total: urls.length };
+    const cache = await caches.open(MEDIA_CACHE);
+    let cached = 0;
+    for (const url of urls) {
+        if (signal?.aborted) break;
+        if (await cache.match(url)) {
+            cached++;
+            continue;
+        }
+        try {
+            // CORS first so audio can be served in byte ranges; hosts without
+            // CORS still get an opaque copy, which is enough for <img> and <audio>.
+            const response = await fetch(url, { signal }).catch(() => fetch(url, { mode: 'no-cors', signal }));
+            if (response.ok || response.type === 'opaque') {
+                await cache.put(url, response);
+                cached++;
+            }
+        } catch (error) {
+            console.warn(`Could not cache ${url} for offline use:`, error);
+        }
+    }
+    return { cached, total: urls.length };
+}
+
+/**
+ * Drops cached files that none of `decks` uses any more, e.g. after a deck is
+ * deleted. Files shared with a remaining deck are kept.
+ */
+export async function pruneMediaCache(decks: Deck[]): Promise<void> {
+    if (!isOfflineCacheSupported) return;
+    const inUse = new Set(decks.flatMap(deckMediaUrls).map(cacheKey));
+    const cache = await caches.open(MEDIA_CACHE);
+    const requests = await cache.keys();
+    await Promise.all(requests
+        .filter(request => !inUse.has(request.url))
+        .map(request => cache.delete(request)));
+}
@@ -0,0 +1,83 @@
+import type { AspectRatio, ImageProvider } from "../types";
+import { ImageGenerationError } from "./errors";
+
+interface OpenAiImageConfig {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+interface OpenAiImageResponse {
+    data?: { b64_json?: string; url?: string }[];
+}
+
+// The sizes DALL·E 3 accepts; other servers generally follow the same set.
+const SIZES: Record<AspectRatio, string> = {
+    '1:1': '1024x1024',
+    '3:4': '1024x1792',
+    '9:16': '1024x1792',
+    '4:3': '1792x1024',
+    '16:9': '1792x1024',
+};
+
+// Works against any server exposing the OpenAI `/images/generations` endpoint,
+// including local ones (LocalAI, Automatic1111 bridges, etc.).
+export function createOpenAiImageProvider({ baseUrl, apiKey, model }: OpenAiImageConfig): ImageProvider {
+    return {
+        id: 'openai',
+        label: 'OpenAI-compatible',
+        async generateImage({ prompt, negativePrompt, aspectRatio, signal }) {
+            if (!baseUrl) {
+                throw new ImageGenerationError("OpenAI-compatible base URL is not set. Add one in Settings.");
+            }
+
+            try {
+                const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/images/generations`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                    },
+                    body: JSON.stringify({
+                        model: model || undefined,
+                        prompt: negativePrompt ? `${prompt}\nAvoid: ${negativePrompt}` : prompt,
+                        n: 1,
+                        size: SIZES[aspectRatio],
+                        response_format: 'b64_json',
+                    }),
+                    signal,
+                });
+                if (!response.ok) {
+                    throw new ImageGenerationError(
+                        `OpenAI-compatible API Error: ${response.status} ${response.statusText}`,
+                        response.status,
+                    );
+                }
+
+                const result: OpenAiImageResponse = await response.json();
+                const image = result.data?.[0];
+                if (image?.b64_json) {
+                    return `data:image/png;base64,${image.b64_json}`;
+                } else if (image?.url) {
+                    return image.url;
+                } else {
+                    throw new Error("No images were generated by the API.");
+                }
+
+            } catch (error) {
+                console.error("Error calling OpenAI-compatible API:", error);
+                if (error instanceof ImageGenerationError || signal?.aborted) {
+                    throw error;
+                }
+                if (error instanceof TypeError) {
+                    // Network failure; keep the type so the queue knows it can retry.
+                    throw new TypeError(`OpenAI-compatible API Error: ${error.message}`);
+                }
+                if (error instanceof Error) {
+                    throw new Error(`OpenAI-compatible API Error: ${error.message}`);
+                }
+                throw new Error("An unknown error occurred while generating the image.");
+            }
+        },
+    };
+}
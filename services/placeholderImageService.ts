@@ -0,0 +1,61 @@
+import type { AspectRatio, ImageProvider } from "../types";
+
+const PALETTE = ['#fde68a', '#bbf7d0', '#bfdbfe', '#fbcfe8', '#ddd6fe', '#fed7aa', '#a5f3fc', '#e9d5ff'];
+
+const hashText = (text: string): number => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const escapeXml = (text: string): string =>
+    text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+
+// Greedy word wrap so longer phrases stay inside the square.
+const wrapText = (text: string, maxChars: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && (current + ' ' + word).length > maxChars) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+};
+
+export function renderPlaceholderSvg(text: string, aspectRatio: AspectRatio = '1:1'): string {
+    const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+    const width = ratioWidth >= ratioHeight ? 512 : Math.round((512 * ratioWidth) / ratioHeight);
+    const height = ratioHeight >= ratioWidth ? 512 : Math.round((512 * ratioHeight) / ratioWidth);
+    const background = PALETTE[hashText(text) % PALETTE.length];
+    const lines = wrapText(text, Math.max(8, Math.floor(width / 36)));
+    const fontSize = lines.length > 3 ? 56 : 72;
+    const lineHeight = fontSize * 1.2;
+    const firstLineY = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    const tspans = lines
+        .map((line, i) => `<tspan x="${width / 2}" y="${firstLineY + i * lineHeight}">${escapeXml(line)}</tspan>`)
+        .join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<rect width="${width}" height="${height}" fill="${background}"/>`
+        + `<text font-family="sans-serif" font-size="${fontSize}" font-weight="bold" fill="#1f2937" text-anchor="middle" dominant-baseline="middle">${tspans}</text>`
+        + `</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// Deterministic offline provider: the same text always yields the same image.
+export function createPlaceholderImageProvider(): ImageProvider {
+    return {
+        id: 'placeholder',
+        label: 'Offline placeholder',
+        async generateImage({ text, aspectRatio }) {
+            return renderPlaceholderSvg(text, aspectRatio);
+        },
+    };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { FlashcardItem } from "../types";
+import { REVEAL_STEPS, SlidePosition, buildSlideOrder, firstStep, isRevealed, nextPosition, previousPosition } from "./presentationService";
+
+const card = (id: string): FlashcardItem => ({ id, text: id, audioUrl: '', imageUrl: null, isLoading: false });
+
+// Every position visited by moving forward from the first slide.
+function walk(slideCount: number, revealSequence: boolean): SlidePosition[] {
+    const positions: SlidePosition[] = [];
+    let position: SlidePosition | null = { index: 0, step: firstStep(revealSequence) };
+    while (position) {
+        positions.push(position);
+        position = nextPosition(position, slideCount, revealSequence);
+    }
+    return positions;
+}
+
+describe('reveal sequence', () => {
+    it('uncovers the image, then the audio, then the text', () => {
+        expect(REVEAL_STEPS).toEqual(['image', 'audio', 'text']);
+        expect([0, 1, 2].map(step => REVEAL_STEPS.filter(part => isRevealed(part, step)))).toEqual([
+            ['image'],
+            ['image', 'audio'],
+            ['image', 'audio', 'text'],
+        ]);
+    });
+
+    it('steps through every part of a slide before moving to the next', () => {
+        expect(walk(2, true)).toEqual([
+            { index: 0, step: 0 },
+            { index: 0, step: 1 },
+            { index: 0, step: 2 },
+            { index: 1, step: 0 },
+            { index: 1, step: 1 },
+            { index: 1, step: 2 },
+        ]);
+    });
+
+    it('shows whole slides when the sequence is off', () => {
+        expect(walk(3, false)).toEqual([
+            { index: 0, step: 2 },
+            { index: 1, step: 2 },
+            { index: 2, step: 2 },
+        ]);
+    });
+});
+
+describe('previousPosition', () => {
+    it('goes back to the start of the previous slide, covered again', () => {
+        expect(previousPosition({ index: 2, step: 1 }, true)).toEqual({ index: 1, step: 0 });
+        expect(previousPosition({ index: 2, step: 2 }, false)).toEqual({ index: 1, step: 2 });
+    });
+
+    it('stops on the first slide', () => {
+        expect(previousPosition({ index: 0, step: 2 }, true)).toBeNull();
+    });
+});
+
+describe('buildSlideOrder', () => {
+    const cards = ['a', 'b', 'c', 'd'].map(card);
+
+    it('keeps deck order unless shuffled', () => {
+        expect(buildSlideOrder(cards, false, 'c')).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('leads a shuffled order with the current slide', () => {
+        const order = buildSlideOrder(cards, true, 'c', () => 0);
+        expect(order[0]).toBe('c');
+        expect([...order].sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+});
@@ -0,0 +1,51 @@
+import type { FlashcardItem, PresentationOptions, RevealStep } from "../types";
+import { shuffle } from "./quizService";
+
+export const REVEAL_STEPS: RevealStep[] = ['image', 'audio', 'text'];
+
+export const DEFAULT_PRESENTATION_OPTIONS: PresentationOptions = {
+    shuffle: false,
+    revealSequence: false,
+    autoAdvance: false,
+    advanceDelaySeconds: 3,
+};
+
+// A slide and how far its reveal sequence has got (an index into REVEAL_STEPS).
+export interface SlidePosition {
+    index: number;
+    step: number;
+}
+
+// Without a reveal sequence every slide starts fully shown.
+export const firstStep = (revealSequence: boolean): number => (revealSequence ? 0 : REVEAL_STEPS.length - 1);
+
+/**
+ * Card ids in presentation order. `firstId` leads, so turning shuffle on or
+ * off keeps the current slide on screen.
+ */
+export function buildSlideOrder(
+    cards: FlashcardItem[],
+    shuffled: boolean,
+    firstId?: string | null,
+    random: () => number = Math.random,
+): string[] {
+    const ids = cards.map(card => card.id);
+    if (!shuffled) return ids;
+    const rest = shuffle(ids.filter(id => id !== firstId), random);
+    return firstId && ids.includes(firstId) ? [firstId, ...rest] : rest;
+}
+
+// The next reveal step, or the start of the next slide; null after the last one.
+export function nextPosition({ index, step }: SlidePosition, slideCount: number, revealSequence: boolean): SlidePosition | null {
+    if (step < REVEAL_STEPS.length - 1) return { index, step: step + 1 };
+    if (index + 1 >= slideCount) return null;
+    return { index: index + 1, step: firstStep(revealSequence) };
+}
+
+// The start of the previous slide; null on the first one.
+export function previousPosition({ index }: SlidePosition, revealSequence: boolean): SlidePosition | null {
+    return index > 0 ? { index: index - 1, step: firstStep(revealSequence) } : null;
+}
+
+// Whether a slide at `step` shows the given part.
+export const isRevealed = (part: RevealStep, step: number): boolean => REVEAL_STEPS.indexOf(part) <= step;
@@ -0,0 +1,71 @@
+import type { FlashcardItem, PaperSize, PrintOptions } from "../types";
+
+// Page dimensions in millimetres.
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+    a4: { label: 'A4', width: 210, height: 297 },
+    letter: { label: 'Letter', width: 215.9, height: 279.4 },
+};
+
+// Portrait grids for each supported cards-per-page count.
+export const CARD_GRIDS: Record<number, { columns: number; rows: number }> = {
+    4: { columns: 2, rows: 2 },
+    6: { columns: 2, rows: 3 },
+    8: { columns: 2, rows: 4 },
+    9: { columns: 3, rows: 3 },
+    12: { columns: 3, rows: 4 },
+};
+
+export const PAGE_MARGIN_MM = 10;
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+    paperSize: 'a4',
+    cardsPerPage: 6,
+    fontSize: 24,
+    hideTextOnFront: true,
+    includeBacks: true,
+    showQrCodes: false,
+    cutMarks: true,
+    duplexFlip: 'long-edge',
+};
+
+export interface PrintPage {
+    side: 'front' | 'back';
+    // One slot per grid cell in reading order; null leaves the cell empty.
+    slots: (FlashcardItem | null)[];
+}
+
+/**
+ * Reorders a page's slots so each back lands behind its front once the sheet
+ * is flipped: flipping on the long edge mirrors columns, the short edge rows.
+ */
+export function mirrorForDuplex<T>(slots: T[], columns: number, rows: number, flip: PrintOptions['duplexFlip']): T[] {
+    const mirrored: T[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const sourceRow = flip === 'short-edge' ? rows - 1 - row : row;
+            const sourceColumn = flip === 'long-edge' ? columns - 1 - column : column;
+            mirrored.push(slots[sourceRow * columns + sourceColumn]);
+        }
+    }
+    return mirrored;
+}
+
+// Fronts and (optionally) backs, interleaved so the printout can go straight into a duplex printer.
+export function buildPrintPages(cards: FlashcardItem[], options: PrintOptions): PrintPage[] {
+    const grid = CARD_GRIDS[options.cardsPerPage] ?? CARD_GRIDS[DEFAULT_PRINT_OPTIONS.cardsPerPage];
+    const perPage = grid.columns * grid.rows;
+    const pages: PrintPage[] = [];
+    for (let start = 0; start < cards.length; start += perPage) {
+        const slots: (FlashcardItem | null)[] = cards.slice(start, start + perPage);
+        while (slots.length < perPage) slots.push(null);
+        pages.push({ side: 'front', slots });
+        if (options.includeBacks) {
+            pages.push({ side: 'back', slots: mirrorForDuplex(slots, grid.columns, grid.rows, options.duplexFlip) });
+        }
+    }
+    return pages;
+}
+
+// Only web addresses make sense in a QR code; local recordings can't be reached from a phone.
+export const qrTargetFor = (card: FlashcardItem): string | null =>
+    /^https?:\/\//i.test(card.audioUrl) ? card.audioUrl : null;
@@ -0,0 +1,29 @@
+import { DEFAULT_STYLE_PRESETS } from "../constants";
+import type { Deck, FlashcardItem, ImageGenerationRequest, StylePreset } from "../types";
+
+// Fills every `{text}` placeholder; templates without one get the subject appended.
+export function applyTemplate(template: string, subject: string): string {
+    return template.includes('{text}')
+        ? template.split('{text}').join(subject)
+        : `${template.trim()} ${subject}`.trim();
+}
+
+/**
+ * Picks the card's style, then the deck's default, then the first preset.
+ */
+export function resolveStylePreset(presets: StylePreset[], card: FlashcardItem, deck: Deck | null): StylePreset {
+    const available = presets.length > 0 ? presets : DEFAULT_STYLE_PRESETS;
+    return available.find(preset => preset.id === card.styleId)
+        ?? available.find(preset => preset.id === deck?.defaultStyleId)
+        ?? available[0];
+}
+
+export function buildImageRequest(preset: StylePreset, card: FlashcardItem, subject: string): ImageGenerationRequest {
+    return {
+        prompt: applyTemplate(preset.template, subject),
+        text: card.text,
+        negativePrompt: preset.negativePrompt.trim() || undefined,
+        aspectRatio: preset.aspectRatio,
+        outputMimeType: preset.outputMimeType,
+    };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { alignWords, comparePronunciation, normalizeWord } from "./pronunciationService";
+
+const statuses = (referenceText: string, spokenText: string, options = {}) =>
+    comparePronunciation(referenceText, spokenText, options).words.map(w => [w.word, w.status]);
+
+describe('normalizeWord', () => {
+    it('lowercases and drops punctuation', () => {
+        expect(normalizeWord('Hello,')).toBe('hello');
+    });
+
+    it('keeps accents unless asked to ignore them', () => {
+        expect(normalizeWord('Río!')).toBe('río');
+        expect(normalizeWord('Río!', { ignoreDiacritics: true })).toBe('rio');
+    });
+
+    it('folds case for the given locale', () => {
+        expect(normalizeWord('I', { locale: 'tr-TR' })).toBe('ı');
+    });
+});
+
+describe('alignWords', () => {
+    it('pairs equal words and marks the gaps', () => {
+        expect(alignWords(['a', 'b', 'c'], ['a', 'c'])).toEqual([
+            { type: 'match', ref: 0, spoken: 0 },
+            { type: 'omit', ref: 1 },
+            { type: 'match', ref: 2, spoken: 1 },
+        ]);
+        expect(alignWords(['a', 'c'], ['a', 'b', 'c'])).toEqual([
+            { type: 'match', ref: 0, spoken: 0 },
+            { type: 'insert', spoken: 1 },
+            { type: 'match', ref: 1, spoken: 2 },
+        ]);
+    });
+});
+
+describe('comparePronunciation', () => {
+    it('scores a perfect answer 100, ignoring case and punctuation', () => {
+        expect(comparePronunciation('Hello, world!', 'hello world').score).toBe(100);
+    });
+
+    it('marks swapped words as misordered with partial credit', () => {
+        const result = comparePronunciation('see a doctor', 'doctor a see');
+        expect(result.words.map(w => w.status)).toEqual(['misordered', 'correct', 'misordered']);
+        expect(result.score).toBe(67);
+    });
+
+    it('reports a moved word once, not also as an extra word', () => {
+        const result = comparePronunciation('see a doctor', 'a doctor see');
+        expect(result.words.filter(w => w.status === 'inserted')).toEqual([]);
+        expect(result.words.find(w => w.word === 'see')?.status).toBe('misordered');
+    });
+
+    it('penalizes an inserted word', () => {
+        expect(statuses('see a doctor', 'see a good doctor')).toEqual([
+            ['see', 'correct'],
+            ['a', 'correct'],
+            ['good', 'inserted'],
+            ['doctor', 'correct'],
+        ]);
+        expect(comparePronunciation('see a doctor', 'see a good doctor').score).toBe(92);
+    });
+
+    it('marks a dropped word as omitted', () => {
+        expect(statuses('see a doctor', 'see doctor')).toEqual([
+            ['see', 'correct'],
+            ['a', 'omitted'],
+            ['doctor', 'correct'],
+        ]);
+        expect(comparePronunciation('see a doctor', 'see doctor').score).toBe(67);
+    });
+
+    it('gives close credit to a near miss', () => {
+        expect(statuses('I want bread', 'I want bred')[2]).toEqual(['bread', 'close']);
+    });
+
+    it('scores 0 against an empty reference', () => {
+        expect(comparePronunciation('', 'hello').score).toBe(0);
+        expect(comparePronunciation('', '').score).toBe(0);
+    });
+
+    it('accepts a missing accent only when diacritics are ignored', () => {
+        expect(statuses('el río', 'el rio', { locale: 'es-ES' })[1]).toEqual(['río', 'substituted']);
+        expect(comparePronunciation('el río', 'el rio', { locale: 'es-ES', ignoreDiacritics: true }).score).toBe(100);
+    });
+});
@@ -0,0 +1,185 @@
+import type { PronunciationResult, TextNormalization, WordResult, WordStatus } from "../types";
+import { metaphone } from "./metaphone";
+
+export interface CompareOptions extends TextNormalization {
+    // Treat words that sound alike (same Metaphone code) as close matches.
+    // Metaphone only knows English, so this defaults to off for other locales.
+    usePhonetic?: boolean;
+}
+
+type AlignmentOp =
+    | { type: 'match' | 'close' | 'substitute'; ref: number; spoken: number }
+    | { type: 'omit'; ref: number }
+    | { type: 'insert'; spoken: number };
+
+// Credit each reference word earns towards the score.
+const WORD_CREDIT: Record<WordStatus, number> = {
+    correct: 1,
+    close: 0.75,
+    misordered: 0.5,
+    substituted: 0,
+    omitted: 0,
+    inserted: 0,
+};
+const INSERTION_PENALTY = 0.25;
+
+// Accents and other marks that NFD splits off Latin, Greek and Cyrillic letters.
+const COMBINING_DIACRITICS = /[\u0300-\u036f]/g;
+
+// A malformed language tag shouldn't break answer checking.
+function toLocaleLower(text: string, locale?: string): string {
+    try {
+        return text.toLocaleLowerCase(locale);
+    } catch {
+        return text.toLowerCase();
+    }
+}
+
+/**
+ * Lowercases and drops punctuation, keeping letters, digits and combining
+ * marks in any script. Text is NFC-normalized first so "é" typed as one
+ * character matches "e" plus an accent from a speech recognizer.
+ */
+export function normalizeWord(word: string, { locale, ignoreDiacritics = false }: TextNormalization = {}): string {
+    let normalized = toLocaleLower(word.normalize('NFC'), locale);
+    if (ignoreDiacritics) {
+        normalized = normalized.normalize('NFD').replace(COMBINING_DIACRITICS, '').normalize('NFC');
+    }
+    return normalized.replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+}
+
+export const tokenize = (text: string, options: TextNormalization = {}): string[] =>
+    text.split(/\s+/).map(word => normalizeWord(word, options)).filter(Boolean);
+
+function characterDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+function isClose(a: string, b: string, usePhonetic: boolean): boolean {
+    if (usePhonetic && metaphone(a) !== '' && metaphone(a) === metaphone(b)) {
+        return true;
+    }
+    // One typo-sized slip in a word of five or more letters.
+    return Math.min(a.length, b.length) >= 5 && characterDistance(a, b) <= 1;
+}
+
+/**
+ * Word-level Levenshtein alignment. Close matches cost half a substitution so
+ * the alignment prefers pairing near-misses over treating them as gaps.
+ */
+export function alignWords(reference: string[], spoken: string[], usePhonetic = true): AlignmentOp[] {
+    const n = reference.length;
+    const m = spoken.length;
+    const cost = (i: number, j: number) =>
+        reference[i] === spoken[j] ? 0 : isClose(reference[i], spoken[j], usePhonetic) ? 0.5 : 1;
+
+    const dp: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+        Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+    for (let i = 1; i <= n; i++) {
+        for (let j = 1; j <= m; j++) {
+            dp[i][j] = Math.min(
+                dp[i - 1][j - 1] + cost(i - 1, j - 1),
+                dp[i - 1][j] + 1,
+                dp[i][j - 1] + 1,
+            );
+        }
+    }
+
+    const ops: AlignmentOp[] = [];
+    let i = n;
+    let j = m;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + cost(i - 1, j - 1)) {
+            const c = cost(i - 1, j - 1);
+            ops.push({ type: c === 0 ? 'match' : c === 0.5 ? 'close' : 'substitute', ref: i - 1, spoken: j - 1 });
+            i--;
+            j--;
+        } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+            ops.push({ type: 'omit', ref: i - 1 });
+            i--;
+        } else {
+            ops.push({ type: 'insert', spoken: j - 1 });
+            j--;
+        }
+    }
+    return ops.reverse();
+}
+
+/**
+ * Scores a spoken transcript against the reference text. Each reference word
+ * is marked correct, close, substituted, omitted or misordered (said, but in
+ * the wrong place); extra spoken words are reported as insertions.
+ */
+export function comparePronunciation(referenceText: string, spokenText: string, options: CompareOptions = {}): PronunciationResult {
+    const { usePhonetic = !options.locale || options.locale.toLowerCase().startsWith('en'), ...normalization } = options;
+    const normalize = (word: string) => normalizeWord(word, normalization);
+    const displayWords = referenceText.split(/\s+/).filter(Boolean);
+    const reference = displayWords.map(normalize);
+    const spokenDisplay = spokenText.split(/\s+/).filter(word => normalize(word));
+    const spoken = spokenDisplay.map(normalize);
+
+    const ops = alignWords(reference, spoken, usePhonetic);
+
+    // Spoken words the alignment didn't pair with their own reference word.
+    const unmatchedSpoken = new Map<string, number>();
+    for (const op of ops) {
+        if (op.type === 'insert' || op.type === 'substitute') {
+            const word = spoken[op.spoken];
+            unmatchedSpoken.set(word, (unmatchedSpoken.get(word) ?? 0) + 1);
+        }
+    }
+    // A missed reference word that was said elsewhere is an order error.
+    const claimOutOfOrder = (refWord: string): boolean => {
+        const count = unmatchedSpoken.get(refWord) ?? 0;
+        if (count === 0) return false;
+        unmatchedSpoken.set(refWord, count - 1);
+        return true;
+    };
+
+    const words: WordResult[] = [];
+    for (const op of ops) {
+        if (op.type === 'insert') {
+            words.push({ word: spokenDisplay[op.spoken], spoken: spokenDisplay[op.spoken], status: 'inserted' });
+            continue;
+        }
+        const word = displayWords[op.ref];
+        if (op.type === 'omit') {
+            words.push({ word, spoken: null, status: claimOutOfOrder(reference[op.ref]) ? 'misordered' : 'omitted' });
+        } else if (op.type === 'substitute') {
+            const status = claimOutOfOrder(reference[op.ref]) ? 'misordered' : 'substituted';
+            words.push({ word, spoken: spokenDisplay[op.spoken], status });
+        } else {
+            words.push({ word, spoken: spokenDisplay[op.spoken], status: op.type === 'match' ? 'correct' : 'close' });
+        }
+    }
+
+    // An insertion that was credited to a misordered reference word isn't
+    // really extra, so drop it rather than reporting the word twice.
+    const movedWords = words
+        .filter(w => w.status === 'misordered' && w.spoken === null)
+        .map(w => normalize(w.word));
+    const result = words.filter(w => {
+        if (w.status !== 'inserted') return true;
+        const index = movedWords.indexOf(normalize(w.word));
+        if (index === -1) return true;
+        movedWords.splice(index, 1);
+        return false;
+    });
+
+    const extraWords = result.filter(w => w.status === 'inserted').length;
+    const credit = result.reduce((sum, w) => sum + WORD_CREDIT[w.status], 0) - extraWords * INSERTION_PENALTY;
+    const score = reference.length === 0 ? 0 : Math.round(Math.max(0, credit / reference.length) * 100);
+
+    return { words: result, score };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { FlashcardItem } from "../types";
+import { CHOICES_PER_ROUND, buildQuiz, isCorrectSpelling, pickDistractors } from "./quizService";
+
+// Deterministic stand-in for Math.random.
+function seededRandom(seed = 1) {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return (state - 1) / 2147483646;
+    };
+}
+
+const card = (id: string, text = id, imageUrl: string | null = `https://example.com/${id}.png`): FlashcardItem => ({
+    id,
+    text,
+    audioUrl: '',
+    imageUrl,
+    isLoading: false,
+});
+
+const deckOf = (count: number) => Array.from({ length: count }, (_, i) => card(String(i + 1)));
+
+describe('pickDistractors', () => {
+    it('picks distinct cards other than the answer', () => {
+        const cards = deckOf(8);
+        for (let seed = 1; seed <= 20; seed++) {
+            const distractors = pickDistractors(cards[0], cards, 'picture-to-word', seededRandom(seed));
+            expect(distractors).toHaveLength(CHOICES_PER_ROUND - 1);
+            expect(new Set(distractors.map(c => c.id)).size).toBe(distractors.length);
+            expect(distractors.map(c => c.id)).not.toContain('1');
+        }
+    });
+
+    it('skips cards with the same text or picture as the answer, or as each other', () => {
+        const answer = card('1', 'Pan');
+        const pool = [
+            answer,
+            card('2', ' pan '),
+            card('3', 'agua', answer.imageUrl),
+            card('4', 'leche'),
+            card('5', 'LECHE'),
+            card('6', 'queso', null),
+        ];
+        const distractors = pickDistractors(answer, pool, 'picture-to-word', seededRandom());
+        expect(distractors.map(c => c.text.toLowerCase())).toEqual(['leche']);
+    });
+});
+
+describe('buildQuiz', () => {
+    it('offers the answer once among four distinct choices', () => {
+        const rounds = buildQuiz(deckOf(6), ['listen-pick-image', 'picture-to-word'], 6, undefined, seededRandom());
+        expect(rounds).toHaveLength(6);
+        for (const round of rounds) {
+            const ids = round.options.map(c => c.id);
+            expect(ids).toHaveLength(CHOICES_PER_ROUND);
+            expect(new Set(ids).size).toBe(CHOICES_PER_ROUND);
+            expect(ids.filter(id => id === round.card.id)).toHaveLength(1);
+        }
+    });
+
+    it('rotates through the chosen round types and stops at the round count', () => {
+        const rounds = buildQuiz(deckOf(6), ['listen-pick-image', 'picture-to-word', 'spelling'], 4, undefined, seededRandom());
+        expect(rounds.map(round => round.type)).toEqual(['listen-pick-image', 'picture-to-word', 'spelling', 'listen-pick-image']);
+    });
+
+    it('falls back to spelling when a small deck cannot fill the choices', () => {
+        const rounds = buildQuiz(deckOf(3), ['picture-to-word', 'spelling'], 10, undefined, seededRandom());
+        expect(rounds).toHaveLength(3);
+        expect(rounds.every(round => round.type === 'spelling' && round.options.length === 0)).toBe(true);
+    });
+
+    it('builds no picture rounds from fewer than four cards', () => {
+        expect(buildQuiz(deckOf(3), ['listen-pick-image', 'picture-to-word'], 10, undefined, seededRandom())).toEqual([]);
+    });
+
+    it('draws distractors from the whole pool when retrying a few cards', () => {
+        const deck = deckOf(5);
+        const rounds = buildQuiz([deck[0]], ['picture-to-word'], 1, deck, seededRandom());
+        expect(rounds).toHaveLength(1);
+        expect(rounds[0].options).toHaveLength(CHOICES_PER_ROUND);
+    });
+});
+
+describe('isCorrectSpelling', () => {
+    it('ignores case and punctuation, and accents only when asked', () => {
+        expect(isCorrectSpelling('¿Dónde está?', 'dónde  está')).toBe(true);
+        expect(isCorrectSpelling('dónde', 'donde')).toBe(false);
+        expect(isCorrectSpelling('dónde', 'donde', { ignoreDiacritics: true })).toBe(true);
+    });
+});
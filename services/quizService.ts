@@ -0,0 +1,96 @@
+import type { FlashcardItem, QuizAnswer, QuizRound, QuizRoundType, TextNormalization } from "../types";
+import { tokenize } from "./pronunciationService";
+
+export const QUIZ_ROUND_TYPES: { id: QuizRoundType; label: string; description: string }[] = [
+    { id: 'listen-pick-image', label: 'Listen and pick', description: 'Hear the audio, pick the matching picture.' },
+    { id: 'picture-to-word', label: 'Picture to word', description: 'See the picture, pick the matching text.' },
+    { id: 'spelling', label: 'Spelling', description: 'Hear the audio, type what you heard.' },
+];
+
+export const CHOICES_PER_ROUND = 4;
+
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const needsImage = (type: QuizRoundType) => type !== 'spelling';
+
+// Picture rounds need a picture on the answer and every distractor.
+const isEligible = (card: FlashcardItem, type: QuizRoundType) => !needsImage(type) || !!card.imageUrl;
+
+/**
+ * Other cards that can't be confused with `card`: different text and, for
+ * picture rounds, a different picture.
+ */
+export function pickDistractors(
+    card: FlashcardItem,
+    pool: FlashcardItem[],
+    type: QuizRoundType,
+    random: () => number = Math.random,
+): FlashcardItem[] {
+    const seenText = new Set([card.text.trim().toLowerCase()]);
+    const seenImages = new Set([card.imageUrl]);
+    const distractors: FlashcardItem[] = [];
+    for (const candidate of shuffle(pool, random)) {
+        if (distractors.length === CHOICES_PER_ROUND - 1) break;
+        const text = candidate.text.trim().toLowerCase();
+        if (!isEligible(candidate, type) || seenText.has(text) || seenImages.has(candidate.imageUrl)) continue;
+        seenText.add(text);
+        seenImages.add(candidate.imageUrl);
+        distractors.push(candidate);
+    }
+    return distractors;
+}
+
+/**
+ * Builds up to `roundCount` rounds, one per card, rotating through the chosen
+ * round types. A card gets the next type it can support; cards that support
+ * none of them (e.g. no picture and spelling not chosen) are skipped.
+ * Distractors come from `distractorPool`, so a retry of a few missed cards can
+ * still draw on the whole deck.
+ */
+export function buildQuiz(
+    cards: FlashcardItem[],
+    types: QuizRoundType[],
+    roundCount: number,
+    distractorPool: FlashcardItem[] = cards,
+    random: () => number = Math.random,
+): QuizRound[] {
+    const rounds: QuizRound[] = [];
+    let typeIndex = 0;
+    for (const card of shuffle(cards, random)) {
+        if (rounds.length === roundCount) break;
+        for (let attempt = 0; attempt < types.length; attempt++) {
+            const type = types[(typeIndex + attempt) % types.length];
+            if (!isEligible(card, type)) continue;
+            if (type === 'spelling') {
+                rounds.push({ type, card, options: [] });
+            } else {
+                const distractors = pickDistractors(card, distractorPool.filter(c => c.id !== card.id), type, random);
+                if (distractors.length < CHOICES_PER_ROUND - 1) continue;
+                rounds.push({ type, card, options: shuffle([card, ...distractors], random) });
+            }
+            typeIndex = (typeIndex + attempt + 1) % types.length;
+            break;
+        }
+    }
+    return rounds;
+}
+
+// Case, punctuation and spacing don't count against a spelling; accents only
+// don't when `ignoreDiacritics` is set.
+export const isCorrectSpelling = (expected: string, typed: string, options: TextNormalization = {}): boolean =>
+    tokenize(expected, options).join(' ') === tokenize(typed, options).join(' ');
+
+export function answerRound(round: QuizRound, given: string, options: TextNormalization = {}): QuizAnswer {
+    const isCorrect = round.type === 'spelling' ? isCorrectSpelling(round.card.text, given, options) : given === round.card.id;
+    return { round, given, isCorrect };
+}
+
+export const scoreQuiz = (answers: QuizAnswer[]): number =>
+    answers.length === 0 ? 0 : Math.round((answers.filter(answer => answer.isCorrect).length / answers.length) * 100);
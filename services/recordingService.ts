@@ -0,0 +1,78 @@
+export const isRecordingSupported =
+    typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+export interface ActiveRecording {
+    // Stops recording and resolves with the take.
+    stop(): Promise<{ blob: Blob; durationMs: number }>;
+    // Stops recording and throws the take away.
+    cancel(): void;
+}
+
+/**
+ * Starts recording from the microphone. The browser picks the container
+ * (webm/opus in Chrome and Firefox, mp4/aac in Safari); the microphone is
+ * released as soon as the recording stops.
+ */
+export async function startRecording(): Promise<ActiveRecording> {
+    if (!isRecordingSupported) {
+        throw new Error("Recording is not supported in this browser.");
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = performance.now();
+    const release = () => stream.getTracks().forEach(track => track.stop());
+
+    recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+
+    return {
+        stop() {
+            return new Promise((resolve, reject) => {
+                recorder.onstop = () => {
+                    release();
+                    resolve({
+                        blob: new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }),
+                        durationMs: Math.round(performance.now() - startedAt),
+                    });
+                };
+                recorder.onerror = () => {
+                    release();
+                    reject(new Error("Recording failed."));
+                };
+                recorder.stop();
+            });
+        },
+        cancel() {
+            recorder.onstop = release;
+            if (recorder.state !== 'inactive') recorder.stop();
+            else release();
+        },
+    };
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Peak amplitude (0–1) of each of `bars` equal slices of the clip, scaled so
+ * the loudest slice is 1. Quiet takes still show a readable shape.
+ */
+export async function computeWaveform(url: string, bars = 64): Promise<number[]> {
+    const response = await fetch(url);
+    audioContext ??= new AudioContext();
+    const buffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+    const peaks = Array.from({ length: bars }, (_, bar) => {
+        let peak = 0;
+        const end = Math.min(samples.length, (bar + 1) * sliceSize);
+        for (let i = bar * sliceSize; i < end; i++) {
+            peak = Math.max(peak, Math.abs(samples[i]));
+        }
+        return peak;
+    });
+    const loudest = Math.max(...peaks);
+    return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+}
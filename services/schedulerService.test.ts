@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { CardSchedule, FlashcardItem } from "../types";
+import { buildDueQueue, isDueToday, newSchedule, parseSchedule, reviewCard } from "./schedulerService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Local noon, so "later today" and "tomorrow" don't depend on the time zone.
+const NOW = new Date(2024, 0, 15, 12).getTime();
+
+const schedule = (overrides: Partial<CardSchedule>): CardSchedule => ({ ...newSchedule(NOW), ...overrides });
+
+const card = (id: string, cardSchedule?: CardSchedule): FlashcardItem => ({
+    id,
+    text: id,
+    audioUrl: '',
+    imageUrl: null,
+    isLoading: false,
+    schedule: cardSchedule,
+});
+
+describe('reviewCard', () => {
+    it('starts a new card with "good" at one day, then six, then interval times ease', () => {
+        const first = reviewCard(undefined, 'good', NOW);
+        expect(first).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5, due: NOW + DAY_MS, lastReviewed: NOW });
+        const second = reviewCard(first, 'good', NOW);
+        expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+        const third = reviewCard(second, 'good', NOW);
+        expect(third).toMatchObject({ interval: 15, repetitions: 3, due: NOW + 15 * DAY_MS });
+    });
+
+    it('grows "easy" intervals further and raises the ease', () => {
+        expect(reviewCard(undefined, 'easy', NOW)).toMatchObject({ interval: 2, ease: 2.65 });
+        expect(reviewCard(schedule({ interval: 10, repetitions: 3 }), 'easy', NOW)).toMatchObject({ interval: 34, ease: 2.65 });
+    });
+
+    it('grows "hard" intervals slowly and lowers the ease', () => {
+        const result = reviewCard(schedule({ interval: 10, repetitions: 3 }), 'hard', NOW);
+        expect(result.interval).toBe(12);
+        expect(result.ease).toBeCloseTo(2.35);
+        expect(reviewCard(undefined, 'hard', NOW).interval).toBe(1);
+    });
+
+    it('sends "again" back to relearning and counts a lapse', () => {
+        const result = reviewCard(schedule({ interval: 15, repetitions: 3, lapses: 1 }), 'again', NOW);
+        expect(result).toMatchObject({ interval: 0, repetitions: 0, lapses: 2, due: NOW + 10 * 60 * 1000 });
+        expect(result.ease).toBeCloseTo(2.3);
+    });
+
+    it('does not count a lapse for a card that was never learned', () => {
+        expect(reviewCard(undefined, 'again', NOW).lapses).toBe(0);
+    });
+
+    it('never lets the ease drop below 1.3', () => {
+        expect(reviewCard(schedule({ ease: 1.4 }), 'again', NOW).ease).toBe(1.3);
+        expect(reviewCard(schedule({ ease: 1.3, interval: 5, repetitions: 2 }), 'hard', NOW).ease).toBe(1.3);
+    });
+});
+
+describe('buildDueQueue', () => {
+    it('takes cards due by the end of today, most overdue first, new cards last', () => {
+        const cards = [
+            card('new'),
+            card('tomorrow', schedule({ due: NOW + DAY_MS })),
+            card('tonight', schedule({ due: NOW + 6 * 60 * 60 * 1000 })),
+            card('overdue', schedule({ due: NOW - 3 * DAY_MS })),
+            card('yesterday', schedule({ due: NOW - DAY_MS })),
+        ];
+        expect(buildDueQueue(cards, NOW).map(c => c.id)).toEqual(['overdue', 'yesterday', 'tonight', 'new']);
+    });
+
+    it('counts never-studied cards as due', () => {
+        expect(isDueToday(card('new'), NOW)).toBe(true);
+    });
+});
+
+describe('parseSchedule', () => {
+    it('keeps a well-formed schedule and drops unknown fields', () => {
+        const value = { ...schedule({ interval: 3 }), extra: true };
+        expect(parseSchedule(value)).toEqual(schedule({ interval: 3 }));
+    });
+
+    it('rejects schedules with missing or mistyped fields', () => {
+        expect(parseSchedule(undefined)).toBeUndefined();
+        expect(parseSchedule({ ...schedule({}), due: '2024-01-15' })).toBeUndefined();
+        const { lapses, ...withoutLapses } = schedule({});
+        expect(parseSchedule(withoutLapses)).toBeUndefined();
+    });
+});
@@ -0,0 +1,106 @@
+import type { CardSchedule, FlashcardItem, ReviewGrade } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+export function newSchedule(now = Date.now()): CardSchedule {
+    return {
+        ease: 2.5,
+        interval: 0,
+        due: now,
+        lapses: 0,
+        repetitions: 0,
+        lastReviewed: null,
+    };
+}
+
+/**
+ * Applies a review grade using SM-2 style rules: "again" resets the card to
+ * relearning, while the other grades grow the interval by the card's ease.
+ */
+export function reviewCard(schedule: CardSchedule | undefined, grade: ReviewGrade, now = Date.now()): CardSchedule {
+    const current = schedule ?? newSchedule(now);
+
+    if (grade === 'again') {
+        return {
+            ...current,
+            ease: Math.max(MIN_EASE, current.ease - 0.2),
+            interval: 0,
+            due: now + RELEARN_DELAY_MS,
+            lapses: current.repetitions > 0 ? current.lapses + 1 : current.lapses,
+            repetitions: 0,
+            lastReviewed: now,
+        };
+    }
+
+    let interval: number;
+    let ease = current.ease;
+    if (grade === 'hard') {
+        interval = Math.max(1, Math.round(current.interval * 1.2));
+        ease = Math.max(MIN_EASE, ease - 0.15);
+    } else {
+        if (current.repetitions === 0) {
+            interval = 1;
+        } else if (current.repetitions === 1) {
+            interval = 6;
+        } else {
+            interval = Math.round(current.interval * ease);
+        }
+        if (grade === 'easy') {
+            interval = Math.round(interval * 1.3) + 1;
+            ease += 0.15;
+        }
+    }
+
+    return {
+        ...current,
+        ease,
+        interval,
+        due: now + interval * DAY_MS,
+        repetitions: current.repetitions + 1,
+        lastReviewed: now,
+    };
+}
+
+const endOfDay = (now: number): number => {
+    const date = new Date(now);
+    date.setHours(23, 59, 59, 999);
+    return date.getTime();
+};
+
+// New cards (never studied) count as due so they enter the first session.
+export const isDueToday = (card: FlashcardItem, now = Date.now()): boolean =>
+    !card.schedule || card.schedule.due <= endOfDay(now);
+
+/**
+ * Cards due today, most overdue first, with never-studied cards last.
+ */
+export function buildDueQueue(cards: FlashcardItem[], now = Date.now()): FlashcardItem[] {
+    return cards
+        .filter(card => isDueToday(card, now))
+        .sort((a, b) => (a.schedule?.due ?? Infinity) - (b.schedule?.due ?? Infinity));
+}
+
+// Accepts a schedule from imported data only if every field has the right type.
+export function parseSchedule(value: any): CardSchedule | undefined {
+    if (
+        value &&
+        typeof value.ease === 'number' &&
+        typeof value.interval === 'number' &&
+        typeof value.due === 'number' &&
+        typeof value.lapses === 'number' &&
+        typeof value.repetitions === 'number' &&
+        (value.lastReviewed === null || typeof value.lastReviewed === 'number')
+    ) {
+        return {
+            ease: value.ease,
+            interval: value.interval,
+            due: value.due,
+            lapses: value.lapses,
+            repetitions: value.repetitions,
+            lastReviewed: value.lastReviewed,
+        };
+    }
+    return undefined;
+}
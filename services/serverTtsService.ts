@@ -0,0 +1,73 @@
+import type { TtsProvider, TtsRequest } from "../types";
+
+interface ServerTtsConfig {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+const cacheKey = ({ text, voice }: TtsRequest) => JSON.stringify([text, voice.voiceName, voice.rate, voice.accent]);
+
+// Works against any server exposing the OpenAI `/audio/speech` endpoint
+// (OpenAI itself, LocalAI, openedai-speech, Kokoro-FastAPI, etc.).
+export function createServerTtsProvider({ baseUrl, apiKey, model }: ServerTtsConfig): TtsProvider {
+    // Audio already fetched this session, so replaying a card doesn't hit the server again.
+    const cache = new Map<string, Blob>();
+
+    const synthesize = async (request: TtsRequest): Promise<Blob> => {
+        const key = cacheKey(request);
+        const cached = cache.get(key);
+        if (cached) return cached;
+        if (!baseUrl) {
+            throw new Error("Text-to-speech server URL is not set. Add one in Settings.");
+        }
+
+        try {
+            const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/audio/speech`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model: model || undefined,
+                    input: request.text,
+                    voice: request.voice.voiceName || 'alloy',
+                    speed: request.voice.rate,
+                    response_format: 'mp3',
+                }),
+                signal: request.signal,
+            });
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const blob = await response.blob();
+            cache.set(key, blob);
+            return blob;
+        } catch (error) {
+            console.error("Error calling text-to-speech server:", error);
+            if (request.signal?.aborted) throw error;
+            throw new Error(`Text-to-speech API Error: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+    };
+
+    return {
+        id: 'server',
+        label: 'Text-to-speech server',
+        synthesize,
+        async speak(request) {
+            const url = URL.createObjectURL(await synthesize(request));
+            try {
+                const audio = new Audio(url);
+                await new Promise<void>((resolve, reject) => {
+                    audio.onended = () => resolve();
+                    audio.onerror = () => reject(new Error("Could not play the generated audio."));
+                    request.signal?.addEventListener('abort', () => { audio.pause(); resolve(); }, { once: true });
+                    audio.play().catch(reject);
+                });
+            } finally {
+                URL.revokeObjectURL(url);
+            }
+        },
+    };
+}
@@ -0,0 +1,46 @@
+import { DEFAULT_STYLE_PRESETS } from "../constants";
+import type { AppSettings } from "../types";
+
+const SETTINGS_KEY = 'flashcards.settings';
+
+// Proxy baked in at build time. Only the address is public; the key stays on the server.
+const BUILD_PROXY_URL = import.meta.env.VITE_GEMINI_PROXY_URL ?? '';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    imageProvider: BUILD_PROXY_URL ? 'gemini' : 'placeholder',
+    geminiProxyUrl: BUILD_PROXY_URL,
+    geminiApiKey: '',
+    openAiBaseUrl: 'http://localhost:8080/v1',
+    openAiApiKey: '',
+    openAiModel: '',
+    generationConcurrency: 3,
+    generationMaxRetries: 3,
+    stylePresets: DEFAULT_STYLE_PRESETS,
+    imageProcessing: {
+        maxDimension: 1024,
+        format: 'webp',
+        quality: 0.8,
+    },
+    ttsProvider: 'web-speech',
+    ttsServerUrl: 'http://localhost:8080/v1',
+    ttsServerApiKey: '',
+    ttsServerModel: 'tts-1',
+};
+
+export function loadSettings(): AppSettings {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch (error) {
+        console.error("Failed to load settings:", error);
+        return DEFAULT_SETTINGS;
+    }
+}
+
+export function saveSettings(settings: AppSettings): void {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Failed to save settings:", error);
+    }
+}
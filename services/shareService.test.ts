@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Deck, FlashcardItem } from "../types";
+import { decodeDeck, encodeDeck } from "./shareService";
+
+const card = (id: string, fields: Partial<FlashcardItem>): FlashcardItem => ({
+    id,
+    text: '',
+    audioUrl: '',
+    imageUrl: null,
+    isLoading: false,
+    ...fields,
+});
+
+const deck: Deck = {
+    id: 'deck',
+    name: 'Unit 2',
+    description: 'Food',
+    language: 'es-ES',
+    ignoreDiacritics: true,
+    createdAt: 1,
+    updatedAt: 1,
+    cards: [
+        card('a', { text: 'pan', audioUrl: 'https://example.com/pan.mp3', imageUrl: 'https://example.com/pan.png' }),
+        card('b', { text: 'agua', imageUrl: 'https://example.com/agua.png' }),
+        card('c', { text: 'croissant', language: 'fr-FR' }),
+        card('d', { text: 'leche', audioUrl: 'blob:https://example.com/1234' }),
+    ],
+};
+
+describe('encodeDeck / decodeDeck', () => {
+    it('round-trips the deck settings and cards', () => {
+        const decoded = decodeDeck(encodeDeck(deck));
+        expect(decoded).toMatchObject({ name: 'Unit 2', description: 'Food', language: 'es-ES', ignoreDiacritics: true, issues: [] });
+        expect(decoded.cards.map(({ text, audioUrl, imageUrl, language }) => ({ text, audioUrl, imageUrl, language }))).toEqual([
+            { text: 'pan', audioUrl: 'https://example.com/pan.mp3', imageUrl: 'https://example.com/pan.png', language: undefined },
+            // No audio, but the image after it keeps its place.
+            { text: 'agua', audioUrl: '', imageUrl: 'https://example.com/agua.png', language: undefined },
+            { text: 'croissant', audioUrl: '', imageUrl: null, language: 'fr-FR' },
+            // Media that only exists in this browser is left out.
+            { text: 'leche', audioUrl: '', imageUrl: null, language: undefined },
+        ]);
+    });
+
+    it('numbers the cards by position so a reopened link keeps its ids', () => {
+        expect(decodeDeck(encodeDeck(deck)).cards.map(c => c.id)).toEqual(['1', '2', '3', '4']);
+    });
+
+    it('rejects a damaged payload', () => {
+        expect(() => decodeDeck(encodeDeck(deck).slice(0, 20))).toThrow('incomplete or damaged');
+    });
+});
@@ -0,0 +1,159 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+import type { Deck, ImportedDeck, TtsVoiceSettings } from "../types";
+import { deckNameFromFilename, findDeckFormat } from "./deckFormatRegistry";
+import { validateCards } from "./deckSchema";
+import { parseVoiceSettings } from "./ttsProviderService";
+
+// Share links live in the URL hash, which browsers never send to a server:
+//   #share=<deck>&hideText=1        the deck itself, deflated and base64url-encoded
+//   #share-url=<url>&hideText=1     a deck file hosted elsewhere (JSON, ZIP, …)
+const SHARE_VERSION = 1;
+
+// Browsers and chat apps start truncating URLs around here.
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export interface ShareLink {
+    // Inline deck payload, or the URL of a hosted deck file.
+    payload?: string;
+    bundleUrl?: string;
+    // The teacher's default for Hide Text Mode.
+    hideText: boolean;
+}
+
+// [text, audioUrl, imageUrl, language], trailing empty fields dropped.
+type CompactCard = [string, string?, string?, string?];
+
+interface CompactDeck {
+    v: number;
+    n: string;
+    d?: string;
+    l?: string;
+    // Set to 1 when answers are checked ignoring accents.
+    i?: 1;
+    // The deck's voice, rate and accent.
+    t?: TtsVoiceSettings;
+    c: CompactCard[];
+}
+
+// Blob and data URLs only exist in the teacher's browser or are too big for a link.
+const isWebUrl = (url: string | null | undefined): url is string => !!url && /^https?:/i.test(url);
+
+/**
+ * Cards whose audio or image only exists in this browser, so an inline link
+ * would share them without it. Hosting an exported ZIP avoids that.
+ */
+export const countLocalMediaCards = (deck: Deck): number =>
+    deck.cards.filter(card => (card.audioUrl && !isWebUrl(card.audioUrl)) || (card.imageUrl && !isWebUrl(card.imageUrl))).length;
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export function encodeDeck(deck: Deck): string {
+    const compact: CompactDeck = {
+        v: SHARE_VERSION,
+        n: deck.name,
+        d: deck.description || undefined,
+        l: deck.language,
+        i: deck.ignoreDiacritics ? 1 : undefined,
+        t: deck.tts,
+        c: deck.cards.map(card => {
+            const fields = [
+                card.text,
+                isWebUrl(card.audioUrl) ? card.audioUrl : '',
+                isWebUrl(card.imageUrl) ? card.imageUrl : '',
+                card.language ?? '',
+            ];
+            while (fields.length > 1 && !fields[fields.length - 1]) fields.pop();
+            return fields as CompactCard;
+        }),
+    };
+    return toBase64Url(deflateSync(strToU8(JSON.stringify(compact)), { level: 9 }));
+}
+
+export function decodeDeck(payload: string): ImportedDeck {
+    let compact: CompactDeck;
+    try {
+        compact = JSON.parse(strFromU8(inflateSync(fromBase64Url(payload))));
+    } catch {
+        throw new Error("The share link is incomplete or damaged.");
+    }
+    if (compact?.v !== SHARE_VERSION || !Array.isArray(compact.c)) {
+        throw new Error("The share link was made by a different version of the app.");
+    }
+    // Positions make stable ids, so reopening the same link keeps study progress.
+    const cards = compact.c.map((card, i) => Array.isArray(card)
+        ? { id: String(i + 1), text: card[0], audioUrl: card[1] ?? '', imageUrl: card[2] || null, language: card[3] }
+        : card);
+    return {
+        name: typeof compact.n === 'string' && compact.n ? compact.n : 'Shared deck',
+        description: typeof compact.d === 'string' ? compact.d : undefined,
+        language: typeof compact.l === 'string' ? compact.l : undefined,
+        ignoreDiacritics: compact.i === 1 || undefined,
+        tts: parseVoiceSettings(compact.t),
+        ...validateCards(cards),
+    };
+}
+
+/**
+ * Builds a link that opens the app in student view with `deck`, or with the
+ * deck file at `bundleUrl` when one is given.
+ */
+export function buildShareUrl(deck: Deck, options: { hideText: boolean; bundleUrl?: string }): string {
+    const params = new URLSearchParams();
+    if (options.bundleUrl) {
+        params.set('share-url', options.bundleUrl);
+    } else {
+        params.set('share', encodeDeck(deck));
+    }
+    if (options.hideText) params.set('hideText', '1');
+    return `${window.location.origin}${window.location.pathname}#${params.toString()}`;
+}
+
+export function readShareLink(hash: string): ShareLink | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const payload = params.get('share') || undefined;
+    const bundleUrl = params.get('share-url') || undefined;
+    if (!payload && !bundleUrl) return null;
+    return { payload, bundleUrl, hideText: params.get('hideText') === '1' };
+}
+
+// FNV-1a; only has to tell links apart, not resist tampering.
+function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Identifies the deck a link shares, so opening it again reopens the
+ * student's copy instead of adding another one.
+ */
+export const shareLinkKey = (link: ShareLink): string =>
+    link.bundleUrl ? `url:${link.bundleUrl}` : `deck:${hashString(link.payload ?? '')}`;
+
+export async function loadSharedDeck(link: ShareLink): Promise<ImportedDeck> {
+    if (link.payload) return decodeDeck(link.payload);
+
+    const url = link.bundleUrl!;
+    const format = findDeckFormat(url);
+    if (!format.importDeck) {
+        throw new Error(`${format.label} files can't be imported.`);
+    }
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch the shared deck: ${response.statusText}`);
+    }
+    const urlName = deckNameFromFilename(decodeURIComponent(new URL(url).pathname.split('/').pop() || ''));
+    return format.importDeck(await response.blob(), urlName || 'Shared deck');
+}
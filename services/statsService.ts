@@ -0,0 +1,64 @@
+import type { CardStats, FlashcardItem, PracticeAttempt } from "../types";
+import { isRecord } from "./typeGuards";
+
+export function createAttempt(cardId: string, transcript: string, score: number): PracticeAttempt {
+    return {
+        id: crypto.randomUUID(),
+        cardId,
+        timestamp: Date.now(),
+        transcript,
+        score,
+    };
+}
+
+// How many of a card's latest attempts make up its recent score.
+export const RECENT_ATTEMPTS = 3;
+
+const average = (scores: number[]) => Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+
+/**
+ * Per-card practice statistics for cards that have at least one attempt.
+ */
+export function computeCardStats(cards: FlashcardItem[]): CardStats[] {
+    return cards
+        .filter(card => card.practiceAttempts && card.practiceAttempts.length > 0)
+        .map(card => {
+            const attempts = [...(card.practiceAttempts as PracticeAttempt[])].sort((a, b) => a.timestamp - b.timestamp);
+            const scores = attempts.map(attempt => attempt.score);
+            return {
+                cardId: card.id,
+                text: card.text,
+                attempts: attempts.length,
+                bestScore: Math.max(...scores),
+                latestScore: scores[scores.length - 1],
+                averageScore: average(scores),
+                recentScore: average(scores.slice(-RECENT_ATTEMPTS)),
+                scores,
+            };
+        });
+}
+
+/**
+ * The cards learners struggle with most: lowest recent average first, so a
+ * card that has since been mastered drops off the list.
+ */
+export function findHardestCards(stats: CardStats[], limit = 5): CardStats[] {
+    return [...stats]
+        .sort((a, b) => a.recentScore - b.recentScore || b.attempts - a.attempts)
+        .slice(0, limit);
+}
+
+// Keeps only well-formed attempts from imported data.
+export function parsePracticeAttempts(value: unknown, cardId: string): PracticeAttempt[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    return value
+        .filter((attempt): attempt is Record<string, unknown> & { timestamp: number; score: number } =>
+            isRecord(attempt) && typeof attempt.timestamp === 'number' && typeof attempt.score === 'number')
+        .map(attempt => ({
+            id: typeof attempt.id === 'string' ? attempt.id : crypto.randomUUID(),
+            cardId,
+            timestamp: attempt.timestamp,
+            transcript: typeof attempt.transcript === 'string' ? attempt.transcript : '',
+            score: attempt.score,
+        }));
+}
@@ -0,0 +1,293 @@
+import type { CardRecording, Deck, FlashcardItem, ImageVariant } from "../types";
+
+const DB_NAME = 'audio-flashcards';
+const DB_VERSION = 2;
+const DECKS_STORE = 'decks';
+const CARDS_STORE = 'deckCards';
+// Version 1 kept a single deck in this store, keyed by card id.
+const LEGACY_CARDS_STORE = 'cards';
+const ACTIVE_DECK_KEY = 'flashcards.activeDeckId';
+
+type StoredDeck = Omit<Deck, 'cards'>;
+
+// What a card looks like on disk. Generated images, imported audio and recordings are kept
+// as Blobs so they don't bloat the record with base64 text; remote URLs stay
+// as strings.
+// Transient UI state (isLoading) is never stored.
+interface StoredCard extends Omit<FlashcardItem, 'isLoading' | 'imageHistory' | 'recordings'> {
+    deckId: string;
+    order: number;
+    imageBlob: Blob | null;
+    thumbnailBlob?: Blob | null;
+    audioBlob?: Blob | null;
+    // Set instead of imageBlob when the chosen image is one of the variants.
+    imageVariantId?: string;
+    imageHistory?: StoredImageVariant[];
+    recordings?: StoredRecording[];
+}
+
+interface StoredImageVariant extends Omit<ImageVariant, 'url'> {
+    blob: Blob | null;
+    url: string | null;
+}
+
+interface StoredRecording extends Omit<CardRecording, 'url'> {
+    blob: Blob | null;
+    url: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Object URLs we've handed out, mapped back to the Blob they wrap so saving
+// an unchanged image doesn't need a round trip through fetch().
+const objectUrlBlobs = new Map<string, Blob>();
+
+// Last persisted snapshot of each deck and card, used to only write what changed.
+let lastSavedDecks = new Map<string, string>();
+let lastSavedCards = new Map<string, string>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+// Moves the single version 1 deck into the decks/deckCards stores.
+function migrateLegacyCards(db: IDBDatabase, tx: IDBTransaction) {
+    const legacyStore = tx.objectStore(LEGACY_CARDS_STORE);
+    const request = legacyStore.getAll();
+    request.onsuccess = () => {
+        const legacyCards = request.result as Omit<StoredCard, 'deckId'>[];
+        if (legacyCards.length > 0) {
+            const now = Date.now();
+            const deck: StoredDeck = {
+                id: crypto.randomUUID(),
+                name: 'My deck',
+                description: '',
+                createdAt: now,
+                updatedAt: now,
+            };
+            tx.objectStore(DECKS_STORE).put(deck);
+            legacyCards.forEach(card => tx.objectStore(CARDS_STORE).put({ ...card, deckId: deck.id }));
+        }
+        db.deleteObjectStore(LEGACY_CARDS_STORE);
+    };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                const tx = request.transaction as IDBTransaction;
+                if (!db.objectStoreNames.contains(DECKS_STORE)) {
+                    db.createObjectStore(DECKS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(CARDS_STORE)) {
+                    const cards = db.createObjectStore(CARDS_STORE, { keyPath: ['deckId', 'id'] });
+                    cards.createIndex('deckId', 'deckId');
+                }
+                if (db.objectStoreNames.contains(LEGACY_CARDS_STORE)) {
+                    migrateLegacyCards(db, tx);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return dbPromise;
+}
+
+const isInlineUrl = (url: string) => url.startsWith('data:') || url.startsWith('blob:');
+
+export async function urlToBlob(url: string): Promise<Blob> {
+    const cached = objectUrlBlobs.get(url);
+    if (cached) return cached;
+    const response = await fetch(url);
+    return response.blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+export function blobToObjectUrl(blob: Blob): string {
+    const url = URL.createObjectURL(blob);
+    objectUrlBlobs.set(url, blob);
+    return url;
+}
+
+const cardKey = (deckId: string, cardId: string) => `${deckId}\u0000${cardId}`;
+
+const deckSnapshot = ({ cards, ...meta }: Deck) => JSON.stringify(meta);
+
+const cardSnapshot = ({ isLoading, ...card }: FlashcardItem, order: number) =>
+    JSON.stringify([order, card]);
+
+async function toStoredMedia(url: string | null): Promise<{ blob: Blob | null; url: string | null }> {
+    if (url && isInlineUrl(url)) {
+        return { blob: await urlToBlob(url), url: null };
+    }
+    return { blob: null, url };
+}
+
+async function toStoredCard(deckId: string, { isLoading, imageHistory, recordings, ...card }: FlashcardItem, order: number): Promise<StoredCard> {
+    const selectedVariant = imageHistory?.find(variant => variant.url === card.imageUrl);
+    const image = selectedVariant ? { blob: null, url: null } : await toStoredMedia(card.imageUrl);
+    const thumbnail = await toStoredMedia(card.thumbnailUrl ?? null);
+    const audio = await toStoredMedia(card.audioUrl);
+    return {
+        ...card,
+        deckId,
+        order,
+        imageBlob: image.blob,
+        imageUrl: image.url,
+        thumbnailBlob: thumbnail.blob,
+        thumbnailUrl: thumbnail.url ?? undefined,
+        audioBlob: audio.blob,
+        audioUrl: audio.url ?? '',
+        imageVariantId: selectedVariant?.id,
+        imageHistory: imageHistory && await Promise.all(imageHistory.map(async variant => ({
+            ...variant,
+            ...(await toStoredMedia(variant.url)),
+        }))),
+        recordings: recordings && await Promise.all(recordings.map(async recording => ({
+            ...recording,
+            ...(await toStoredMedia(recording.url)),
+        }))),
+    };
+}
+
+function fromStoredCard({ deckId, order, imageBlob, thumbnailBlob, audioBlob, imageVariantId, imageHistory, recordings, ...card }: StoredCard): FlashcardItem {
+    const history = imageHistory?.map(({ blob, ...variant }) => ({
+        ...variant,
+        url: blob ? blobToObjectUrl(blob) : variant.url as string,
+    }));
+    const selectedVariant = history?.find(variant => variant.id === imageVariantId);
+    return {
+        ...card,
+        imageUrl: selectedVariant?.url ?? (imageBlob ? blobToObjectUrl(imageBlob) : card.imageUrl),
+        imageHistory: history,
+        thumbnailUrl: thumbnailBlob ? blobToObjectUrl(thumbnailBlob) : card.thumbnailUrl,
+        audioUrl: audioBlob ? blobToObjectUrl(audioBlob) : card.audioUrl,
+        recordings: recordings?.map(({ blob, ...recording }) => ({
+            ...recording,
+            url: blob ? blobToObjectUrl(blob) : recording.url as string,
+        })),
+        isLoading: false,
+    };
+}
+
+/**
+ * Loads every saved deck with its cards, oldest first.
+ */
+export async function loadDecks(): Promise<Deck[]> {
+    const db = await openDatabase();
+    const tx = db.transaction([DECKS_STORE, CARDS_STORE], 'readonly');
+    const [storedDecks, storedCards] = await Promise.all([
+        requestToPromise(tx.objectStore(DECKS_STORE).getAll() as IDBRequest<StoredDeck[]>),
+        requestToPromise(tx.objectStore(CARDS_STORE).getAll() as IDBRequest<StoredCard[]>),
+    ]);
+
+    storedCards.sort((a, b) => a.order - b.order);
+    const decks = storedDecks
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(deck => ({
+            ...deck,
+            cards: storedCards.filter(card => card.deckId === deck.id).map(fromStoredCard),
+        }));
+
+    lastSavedDecks = new Map(decks.map(deck => [deck.id, deckSnapshot(deck)]));
+    lastSavedCards = new Map(decks.flatMap(deck =>
+        deck.cards.map((card, index) => [cardKey(deck.id, card.id), cardSnapshot(card, index)] as [string, string])
+    ));
+    return decks;
+}
+
+// Saves run one at a time, each diffing against what the previous one committed.
+let saveQueue: Promise<void> = Promise.resolve();
+let latestDecks: Deck[] | null = null;
+
+/**
+ * Persists the library, writing only decks and cards that changed since the
+ * last save and removing those that are no longer present. Calls made while a
+ * save is running wait for it; if several pile up, only the newest is written.
+ */
+export function saveDecks(decks: Deck[]): Promise<void> {
+    latestDecks = decks;
+    const run = saveQueue.then(() => (latestDecks === decks ? writeDecks(decks) : undefined));
+    saveQueue = run.catch(() => {});
+    return run;
+}
+
+async function writeDecks(decks: Deck[]): Promise<void> {
+    const changedDecks = decks.filter(deck => lastSavedDecks.get(deck.id) !== deckSnapshot(deck));
+    const removedDeckIds = [...lastSavedDecks.keys()].filter(id => !decks.some(deck => deck.id === id));
+
+    const currentCards = decks.flatMap(deck =>
+        deck.cards.map((card, index) => ({ deckId: deck.id, card, index, key: cardKey(deck.id, card.id) }))
+    );
+    const changedCards = currentCards
+        .map(entry => ({ ...entry, snapshot: cardSnapshot(entry.card, entry.index) }))
+        .filter(({ key, snapshot }) => lastSavedCards.get(key) !== snapshot);
+    const currentCardKeys = new Set(currentCards.map(entry => entry.key));
+    const removedCardKeys = [...lastSavedCards.keys()].filter(key => !currentCardKeys.has(key));
+
+    if (changedDecks.length === 0 && removedDeckIds.length === 0 && changedCards.length === 0 && removedCardKeys.length === 0) {
+        return;
+    }
+
+    // Blob conversion is async, so finish it before opening the transaction;
+    // IndexedDB transactions auto-commit once the event loop goes idle.
+    const cardRecords = await Promise.all(
+        changedCards.map(({ deckId, card, index }) => toStoredCard(deckId, card, index))
+    );
+
+    const db = await openDatabase();
+    const tx = db.transaction([DECKS_STORE, CARDS_STORE], 'readwrite');
+    const deckStore = tx.objectStore(DECKS_STORE);
+    const cardStore = tx.objectStore(CARDS_STORE);
+    changedDecks.forEach(({ cards, ...meta }) => deckStore.put(meta));
+    removedDeckIds.forEach(id => deckStore.delete(id));
+    cardRecords.forEach(record => cardStore.put(record));
+    removedCardKeys.forEach(key => cardStore.delete(key.split('\u0000')));
+    await transactionDone(tx);
+
+    changedDecks.forEach(deck => lastSavedDecks.set(deck.id, deckSnapshot(deck)));
+    removedDeckIds.forEach(id => lastSavedDecks.delete(id));
+    changedCards.forEach(({ key, snapshot }) => lastSavedCards.set(key, snapshot));
+    removedCardKeys.forEach(key => lastSavedCards.delete(key));
+}
+
+export function loadActiveDeckId(): string | null {
+    return localStorage.getItem(ACTIVE_DECK_KEY);
+}
+
+export function saveActiveDeckId(deckId: string | null): void {
+    if (deckId) {
+        localStorage.setItem(ACTIVE_DECK_KEY, deckId);
+    } else {
+        localStorage.removeItem(ACTIVE_DECK_KEY);
+    }
+}
+
+/**
+ * Turns an object URL we handed out into a data URL so it survives outside
+ * this browser session. Other URLs are returned unchanged.
+ */
+export async function inlineObjectUrl(url: string): Promise<string> {
+    return url.startsWith('blob:') ? blobToDataUrl(await urlToBlob(url)) : url;
+}
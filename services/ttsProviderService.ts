@@ -0,0 +1,39 @@
+import type { AppSettings, TtsProvider, TtsProviderId, TtsVoiceSettings } from "../types";
+import { createServerTtsProvider } from "./serverTtsService";
+import { isRecord } from "./typeGuards";
+import { createWebSpeechTtsProvider } from "./webSpeechTtsService";
+
+export const TTS_PROVIDER_OPTIONS: { id: TtsProviderId; label: string }[] = [
+    { id: 'web-speech', label: 'Browser speech (live only)' },
+    { id: 'server', label: 'Text-to-speech server (OpenAI-compatible)' },
+];
+
+export const DEFAULT_TTS_VOICE: TtsVoiceSettings = {
+    voiceName: '',
+    rate: 1,
+    accent: 'en-US',
+};
+
+// Accepts voice settings from imported data; missing or malformed fields take the defaults.
+export function parseVoiceSettings(value: unknown): TtsVoiceSettings | undefined {
+    if (!isRecord(value)) return undefined;
+    return {
+        voiceName: typeof value.voiceName === 'string' ? value.voiceName : DEFAULT_TTS_VOICE.voiceName,
+        rate: typeof value.rate === 'number' && value.rate > 0 ? value.rate : DEFAULT_TTS_VOICE.rate,
+        accent: typeof value.accent === 'string' && value.accent ? value.accent : DEFAULT_TTS_VOICE.accent,
+    };
+}
+
+export function createTtsProvider(settings: AppSettings): TtsProvider {
+    switch (settings.ttsProvider) {
+        case 'server':
+            return createServerTtsProvider({
+                baseUrl: settings.ttsServerUrl,
+                apiKey: settings.ttsServerApiKey,
+                model: settings.ttsServerModel,
+            });
+        case 'web-speech':
+        default:
+            return createWebSpeechTtsProvider();
+    }
+}
@@ -0,0 +1,6 @@
+// Narrowing for data that comes from outside the app: imported files, share
+// links and API responses.
+
+// A plain object, as opposed to null, an array or a primitive.
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,55 @@
+import type { TtsProvider } from "../types";
+
+export const isSpeechSynthesisSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Voices load asynchronously in Chrome; wait for them the first time.
+export function loadSpeechVoices(): Promise<SpeechSynthesisVoice[]> {
+    if (!isSpeechSynthesisSupported) return Promise.resolve([]);
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+    return new Promise(resolve => {
+        const timer = setTimeout(() => resolve(speechSynthesis.getVoices()), 1000);
+        speechSynthesis.addEventListener('voiceschanged', () => {
+            clearTimeout(timer);
+            resolve(speechSynthesis.getVoices());
+        }, { once: true });
+    });
+}
+
+// Speaks through the browser. It can't produce an audio file, so cards using it
+// are spoken live each time instead of getting stored audio.
+export function createWebSpeechTtsProvider(): TtsProvider {
+    return {
+        id: 'web-speech',
+        label: 'Browser speech',
+        async speak({ text, voice, signal }) {
+            if (!isSpeechSynthesisSupported) {
+                throw new Error("Speech synthesis is not supported in this browser.");
+            }
+            const voices = await loadSpeechVoices();
+            const utterance = new SpeechSynthesisUtterance(text);
+            utterance.lang = voice.accent;
+            utterance.rate = voice.rate;
+            // A named voice only speaks its own language; cards in another
+            // language get a voice for theirs.
+            const language = voice.accent.split('-')[0].toLowerCase();
+            const speaksLanguage = (v: SpeechSynthesisVoice) => v.lang.toLowerCase().startsWith(language);
+            utterance.voice = voices.find(v => v.name === voice.voiceName && speaksLanguage(v))
+                ?? voices.find(v => v.lang === voice.accent)
+                ?? voices.find(speaksLanguage)
+                ?? null;
+
+            speechSynthesis.cancel(); // Don't queue behind whatever was playing.
+            await new Promise<void>((resolve, reject) => {
+                utterance.onend = () => resolve();
+                utterance.onerror = event => {
+                    // "interrupted"/"canceled" just mean something else started speaking.
+                    if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+                    else reject(new Error(`Speech synthesis error: ${event.error}`));
+                };
+                signal?.addEventListener('abort', () => speechSynthesis.cancel(), { once: true });
+                speechSynthesis.speak(utterance);
+            });
+        },
+    };
+}
@@ -0,0 +1,59 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import type { Deck } from "../types";
+import { zipDeckFormat } from "./zipDeckFormat";
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+const deck: Deck = {
+    id: 'deck',
+    name: 'Unit 2',
+    description: 'Food',
+    language: 'es-ES',
+    ignoreDiacritics: true,
+    tts: { voiceName: 'Mónica', rate: 0.8, accent: 'es-MX' },
+    defaultStyleId: 'watercolor',
+    createdAt: 1,
+    updatedAt: 1,
+    cards: [{
+        id: '1',
+        text: 'pan',
+        audioUrl: '',
+        imageUrl: PNG,
+        imageHistory: [{ id: 'v1', url: PNG, prompt: 'bread', createdAt: 1 }],
+        isLoading: false,
+    }],
+};
+
+const bundleOf = (manifest: unknown) => new Blob([zipSync({ 'deck.json': strToU8(JSON.stringify(manifest)) })]);
+
+describe('zipDeckFormat', () => {
+    it('round-trips the deck settings and the chosen image variant', async () => {
+        const imported = await zipDeckFormat.importDeck!(await zipDeckFormat.exportDeck!(deck), 'fallback');
+        expect(imported).toMatchObject({ name: 'Unit 2', description: 'Food', language: 'es-ES', ignoreDiacritics: true, issues: [] });
+        expect(imported.tts).toEqual(deck.tts);
+        expect(imported.defaultStyleId).toBe('watercolor');
+        const [card] = imported.cards;
+        expect(card.imageUrl).toMatch(/^blob:/);
+        expect(card.imageUrl).toBe(card.imageHistory?.[0].url);
+    });
+
+    it('reports malformed cards and blob URLs written into the manifest', async () => {
+        const imported = await zipDeckFormat.importDeck!(bundleOf({
+            schemaVersion: 1,
+            cards: ['not a card', { id: '2', text: 'agua', audioUrl: 'blob:https://example.com/1234' }],
+        }), 'fallback');
+        expect(imported.name).toBe('fallback');
+        expect(imported.cards).toEqual([]);
+        expect(imported.issues?.map(issue => issue.field)).toEqual(['card', 'audioUrl']);
+    });
+
+    it('fills malformed voice settings with the defaults', async () => {
+        const imported = await zipDeckFormat.importDeck!(bundleOf({
+            schemaVersion: 1,
+            tts: { voiceName: 7, rate: -1, accent: 'fr-FR' },
+            cards: [],
+        }), 'fallback');
+        expect(imported.tts).toEqual({ voiceName: '', rate: 1, accent: 'fr-FR' });
+    });
+});
@@ -0,0 +1,132 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import type { DeckFormat, FlashcardItem, TtsVoiceSettings } from "../types";
+import { validateCards } from "./deckSchema";
+import { extensionFor, mimeTypeFor } from "./mediaTypes";
+import { blobToObjectUrl, urlToBlob } from "./storageService";
+import { parseVoiceSettings } from "./ttsProviderService";
+import { isRecord } from "./typeGuards";
+
+export const BUNDLE_SCHEMA_VERSION = 1;
+const MANIFEST = 'deck.json';
+const FALLBACK_EXTENSIONS = { audio: 'mp3', images: 'jpg', recordings: 'webm' };
+
+interface BundleManifest {
+    schemaVersion: number;
+    name: string;
+    description: string;
+    language?: string;
+    ignoreDiacritics?: boolean;
+    tts?: TtsVoiceSettings;
+    defaultStyleId?: string;
+    exportedAt: string;
+    cards: (Omit<FlashcardItem, 'isLoading'> & { imageVariantId?: string })[];
+}
+
+// A self-contained deck: deck.json plus the audio, images and recordings it references,
+// so the file works on a machine with no internet access.
+export const zipDeckFormat: DeckFormat = {
+    id: 'zip',
+    label: 'ZIP bundle',
+    extension: '.zip',
+    mimeType: 'application/zip',
+
+    async exportDeck(deck) {
+        const files: Zippable = {};
+        // The same URL is only stored once, however many cards use it.
+        const bundled = new Map<string, string>();
+
+        const bundle = async (url: string, folder: 'audio' | 'images' | 'recordings', baseName: string): Promise<string> => {
+            if (!url) return url;
+            const existing = bundled.get(url);
+            if (existing) return existing;
+            try {
+                const blob = await urlToBlob(url);
+                const path = `${folder}/${baseName}.${extensionFor(blob.type, url, FALLBACK_EXTENSIONS[folder])}`;
+                // Audio and images are already compressed; store them as-is.
+                files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+                bundled.set(url, path);
+                return path;
+            } catch (error) {
+                // Keep the original link rather than failing the whole export.
+                console.warn(`Could not bundle ${url}; keeping the link instead:`, error);
+                return url;
+            }
+        };
+
+        const cards = [];
+        // Thumbnails are made again on import.
+        for (const [index, { isLoading, thumbnailUrl, queuedPrompt, ...card }] of deck.cards.entries()) {
+            const base = String(index + 1).padStart(4, '0');
+            // A chosen variant is referenced by id, as in the JSON format.
+            const selectedVariant = card.imageHistory?.find(variant => variant.url === card.imageUrl);
+            cards.push({
+                ...card,
+                audioUrl: await bundle(card.audioUrl, 'audio', base),
+                imageUrl: selectedVariant ? null : card.imageUrl && await bundle(card.imageUrl, 'images', base),
+                imageVariantId: selectedVariant?.id,
+                imageHistory: card.imageHistory && await Promise.all(card.imageHistory.map(async (variant, variantIndex) => ({
+                    ...variant,
+                    url: await bundle(variant.url, 'images', `${base}-${variantIndex + 1}`),
+                }))),
+                recordings: card.recordings && await Promise.all(card.recordings.map(async (recording, recordingIndex) => ({
+                    ...recording,
+                    url: await bundle(recording.url, 'recordings', `${base}-${recordingIndex + 1}`),
+                }))),
+            });
+        }
+
+        const manifest: BundleManifest = {
+            schemaVersion: BUNDLE_SCHEMA_VERSION,
+            name: deck.name,
+            description: deck.description,
+            language: deck.language,
+            ignoreDiacritics: deck.ignoreDiacritics,
+            tts: deck.tts,
+            defaultStyleId: deck.defaultStyleId,
+            exportedAt: new Date().toISOString(),
+            cards,
+        };
+        files[MANIFEST] = strToU8(JSON.stringify(manifest, null, 2));
+        return new Blob([zipSync(files)], { type: 'application/zip' });
+    },
+
+    async importDeck(file, name) {
+        const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+        if (!entries[MANIFEST]) {
+            throw new Error(`The bundle has no ${MANIFEST} manifest.`);
+        }
+        const manifest = JSON.parse(strFromU8(entries[MANIFEST]));
+        if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+            throw new Error(`Unsupported bundle version ${manifest.schemaVersion}. Please update the app.`);
+        }
+
+        // Point bundled paths at object URLs; storage then keeps them as Blobs.
+        const objectUrls = new Map<string, string>();
+        const resolve = (url: unknown) => {
+            if (typeof url !== 'string' || !entries[url]) return url;
+            if (!objectUrls.has(url)) {
+                objectUrls.set(url, blobToObjectUrl(new Blob([entries[url]], { type: mimeTypeFor(url) })));
+            }
+            return objectUrls.get(url);
+        };
+        // Anything malformed is passed through as is for validateCards to report.
+        const withResolvedUrl = (media: unknown) => (isRecord(media) ? { ...media, url: resolve(media.url) } : media);
+        const cards = (Array.isArray(manifest.cards) ? manifest.cards : []).map((card: unknown) => (isRecord(card) ? {
+            ...card,
+            audioUrl: resolve(card.audioUrl),
+            imageUrl: resolve(card.imageUrl),
+            imageHistory: Array.isArray(card.imageHistory) ? card.imageHistory.map(withResolvedUrl) : card.imageHistory,
+            recordings: Array.isArray(card.recordings) ? card.recordings.map(withResolvedUrl) : card.recordings,
+        } : card));
+
+        return {
+            name: typeof manifest.name === 'string' && manifest.name ? manifest.name : name,
+            description: typeof manifest.description === 'string' ? manifest.description : '',
+            language: typeof manifest.language === 'string' && manifest.language ? manifest.language : undefined,
+            ignoreDiacritics: typeof manifest.ignoreDiacritics === 'boolean' ? manifest.ignoreDiacritics : undefined,
+            tts: parseVoiceSettings(manifest.tts),
+            defaultStyleId: typeof manifest.defaultStyleId === 'string' ? manifest.defaultStyleId : undefined,
+            ...validateCards(cards, { objectUrls: new Set(objectUrls.values()) }),
+        };
+    },
+};
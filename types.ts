@@ -3,7 +3,239 @@ export interface FlashcardItem {
   text: string;
   audioUrl: string;
   imageUrl: string | null;
+  // Small copy of `imageUrl` for the card grid. Missing until it's been made,
+  // and for images hosted on sites that don't allow reading them back.
+  thumbnailUrl?: string;
   isLoading: boolean;
+  // Replaces `text` as the subject of the image prompt when set.
+  prompt?: string;
+  // Every generated image, oldest first; `imageUrl` is the chosen one.
+  imageHistory?: ImageVariant[];
+  // Overrides the deck's default style preset.
+  styleId?: string;
+  // Pronunciation practice attempts, oldest first.
+  practiceAttempts?: PracticeAttempt[];
+  tags?: string[];
+  // Message from the last failed image generation, cleared on success.
+  generationError?: string | null;
+  // Prompt of an image generation that's queued or running. Unlike isLoading
+  // it's saved, so generation queued before a reload (e.g. offline) resumes.
+  queuedPrompt?: string;
+  // Spaced-repetition state; absent until the card is first studied.
+  schedule?: CardSchedule;
+  // When the card was added to its deck; absent on cards from older versions.
+  createdAt?: number;
+  // BCP 47 tag such as "es-ES"; overrides the deck's language.
+  language?: string;
+  // The learner's own recordings, oldest first.
+  recordings?: CardRecording[];
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardSchedule {
+  ease: number;
+  // Days until the next review.
+  interval: number;
+  // Timestamp (ms) when the card is next due.
+  due: number;
+  lapses: number;
+  // Consecutive successful reviews since the last lapse.
+  repetitions: number;
+  lastReviewed: number | null;
+}
+
+export interface ImageVariant {
+  id: string;
+  url: string;
+  prompt: string;
+  createdAt: number;
+}
+
+// A take recorded in the browser with MediaRecorder.
+export interface CardRecording {
+  id: string;
+  url: string;
+  durationMs: number;
+  createdAt: number;
+}
+
+// How a word in the reference text (or an extra spoken word) was pronounced.
+export type WordStatus = 'correct' | 'close' | 'substituted' | 'omitted' | 'misordered' | 'inserted';
+
+export interface WordResult {
+  // The reference word as displayed, or the extra word for insertions.
+  word: string;
+  // What was heard in its place, if anything.
+  spoken: string | null;
+  status: WordStatus;
+}
+
+// How words are put in a comparable form before checking an answer.
+export interface TextNormalization {
+  // Locale for case folding, e.g. "tr-TR" lowercases "I" to "ı".
+  locale?: string;
+  ignoreDiacritics?: boolean;
+}
+
+export interface PronunciationResult {
+  words: WordResult[];
+  // Overall score from 0 to 100.
+  score: number;
+}
+
+export interface PracticeAttempt {
+  id: string;
+  cardId: string;
+  timestamp: number;
+  transcript: string;
+  score: number;
+}
+
+export interface CardStats {
+  cardId: string;
+  text: string;
+  attempts: number;
+  bestScore: number;
+  latestScore: number;
+  averageScore: number;
+  // Average of the last few scores (see statsService.RECENT_ATTEMPTS).
+  recentScore: number;
+  // Scores oldest first, for plotting the trend.
+  scores: number[];
+}
+
+export interface Deck {
+  id: string;
+  name: string;
+  description: string;
+  cards: FlashcardItem[];
+  // Style preset used for cards that don't pick their own.
+  defaultStyleId?: string;
+  // Voice used to speak or generate audio for cards without a recording.
+  tts?: TtsVoiceSettings;
+  // BCP 47 tag for speech recognition, text-to-speech and answer checking.
+  language?: string;
+  // Accept "Rio" for "Río" when checking answers.
+  ignoreDiacritics?: boolean;
+  // Set on decks opened from a share link (see shareService.shareLinkKey).
+  sharedFrom?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ImageProviderId = 'gemini' | 'openai' | 'placeholder';
+
+export interface ImageGenerationRequest {
+  // The full prompt sent to the model.
+  prompt: string;
+  // The raw card text, used by providers that render it directly.
+  text: string;
+  negativePrompt?: string;
+  aspectRatio: AspectRatio;
+  outputMimeType: ImageMimeType;
+  signal?: AbortSignal;
+}
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type ImageMimeType = 'image/jpeg' | 'image/png';
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  // Prompt template; `{text}` is replaced by the card's prompt or text.
+  template: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  outputMimeType: ImageMimeType;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  generateImage(request: ImageGenerationRequest): Promise<string>;
+}
+
+export type TtsProviderId = 'web-speech' | 'server';
+
+export interface TtsVoiceSettings {
+  // A speechSynthesis voice name, or the server's voice id. Empty picks the default.
+  voiceName: string;
+  // 1 is normal speed.
+  rate: number;
+  // BCP 47 language tag, e.g. "en-US" or "en-GB".
+  accent: string;
+}
+
+export interface TtsRequest {
+  text: string;
+  voice: TtsVoiceSettings;
+  signal?: AbortSignal;
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  // Plays the text aloud straight away.
+  speak: (request: TtsRequest) => Promise<void>;
+  // Renders the text to an audio file that can be stored and exported. Left out
+  // by providers that can only speak live, like the browser's speechSynthesis.
+  synthesize?: (request: TtsRequest) => Promise<Blob>;
+}
+
+export interface AppSettings {
+  imageProvider: ImageProviderId;
+  // Gemini proxy from `server/`; when set, `geminiApiKey` is not used.
+  geminiProxyUrl: string;
+  // Kept in this browser's local storage with the other settings.
+  geminiApiKey: string;
+  openAiBaseUrl: string;
+  openAiApiKey: string;
+  openAiModel: string;
+  generationConcurrency: number;
+  generationMaxRetries: number;
+  stylePresets: StylePreset[];
+  // Applied to generated and uploaded images before they're stored.
+  imageProcessing: ImageProcessingOptions;
+  ttsProvider: TtsProviderId;
+  ttsServerUrl: string;
+  ttsServerApiKey: string;
+  ttsServerModel: string;
+}
+
+export type ImageOutputFormat = 'webp' | 'avif';
+
+export interface ImageProcessingOptions {
+  // Longest side in pixels; larger images are scaled down.
+  maxDimension: number;
+  format: ImageOutputFormat;
+  // Encoder quality from 0 to 1.
+  quality: number;
+}
+
+// A region of an image in its own pixels.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How many of a deck's web-hosted audio and image files are cached for offline use.
+export interface DeckOfflineStatus {
+  cached: number;
+  total: number;
+}
+
+export type GenerationQueueStatus = 'idle' | 'running' | 'paused' | 'offline';
+
+export interface GenerationProgress {
+  status: GenerationQueueStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  active: number;
 }
 
 // Adding Web Speech API types for browsers that support it.
@@ -55,3 +287,116 @@ declare global {
     webkitSpeechRecognition: SpeechRecognitionStatic;
   }
 }
+
+// A deck read from an imported file, before it is added to the library.
+export type CardFilter = 'all' | 'has-image' | 'missing-image' | 'failed' | 'due' | 'low-score';
+
+// 'deck' keeps the deck's own (manually arranged) order.
+export type CardSort = 'deck' | 'alphabetical' | 'added' | 'score';
+
+export interface CardQuery {
+  search: string;
+  filter: CardFilter;
+  sort: CardSort;
+}
+
+export type QuizRoundType = 'listen-pick-image' | 'picture-to-word' | 'spelling';
+
+export interface QuizRound {
+  type: QuizRoundType;
+  card: FlashcardItem;
+  // The answer and its distractors in display order; empty for spelling rounds.
+  options: FlashcardItem[];
+}
+
+export interface QuizAnswer {
+  round: QuizRound;
+  // The chosen card id, or the typed text for spelling rounds.
+  given: string;
+  isCorrect: boolean;
+}
+
+export type PaperSize = 'a4' | 'letter';
+
+export interface PrintOptions {
+  paperSize: PaperSize;
+  cardsPerPage: number;
+  // Text size on the card backs, in points.
+  fontSize: number;
+  hideTextOnFront: boolean;
+  // Print a back page (text, QR code) after each front page for duplex printing.
+  includeBacks: boolean;
+  showQrCodes: boolean;
+  cutMarks: boolean;
+  // Which edge the printer flips the sheet on; decides how backs are mirrored.
+  duplexFlip: 'long-edge' | 'short-edge';
+}
+
+// What a presentation slide shows, in the order a reveal sequence uncovers it.
+export type RevealStep = 'image' | 'audio' | 'text';
+
+export interface PresentationOptions {
+  shuffle: boolean;
+  // Uncover each slide one step at a time instead of all at once.
+  revealSequence: boolean;
+  // Move on by itself once the audio has finished and the delay has passed.
+  autoAdvance: boolean;
+  advanceDelaySeconds: number;
+}
+
+// How audio filenames become card text when building a deck from audio files.
+// 'first' only uppercases the first letter; 'keep' leaves the case untouched.
+export interface FilenameTextRules {
+  capitalization: 'first' | 'sentence' | 'title' | 'lower' | 'keep';
+  stripNumbering: boolean;
+  stripPrefix: string;
+}
+
+// An audio file found in a local folder or a GitHub directory.
+export interface AudioSource {
+  filename: string;
+  url: string;
+}
+
+// A problem with one field of one imported card. `index` is the card's
+// position in the imported file.
+export interface CardValidationIssue {
+  index: number;
+  field: string;
+  reason: string;
+}
+
+// The JSON deck file, as of the current schema version.
+export interface DeckDocument {
+  version: number;
+  name: string;
+  description: string;
+  language?: string;
+  ignoreDiacritics?: boolean;
+  tts?: TtsVoiceSettings;
+  defaultStyleId?: string;
+  exportedAt: string | null;
+  cards: unknown[];
+}
+
+export interface ImportedDeck {
+  name: string;
+  description?: string;
+  language?: string;
+  ignoreDiacritics?: boolean;
+  tts?: TtsVoiceSettings;
+  defaultStyleId?: string;
+  // Valid cards only; cards that failed validation are described in `issues`.
+  cards: FlashcardItem[];
+  issues?: CardValidationIssue[];
+}
+
+export interface DeckFormat {
+  id: string;
+  label: string;
+  // File extension including the dot, e.g. ".json".
+  extension: string;
+  mimeType: string;
+  exportDeck?: (deck: Deck) => Promise<Blob>;
+  importDeck?: (file: Blob, name: string) => Promise<ImportedDeck>;
+}
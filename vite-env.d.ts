@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Address of the Gemini proxy in `server/`, e.g. https://flashcards-proxy.example.com
+  readonly VITE_GEMINI_PROXY_URL?: string;
+}
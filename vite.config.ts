@@ -1,14 +1,39 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// Fills in the PRECACHE list of the service worker copied from public/sw.js
+// with every file the build emitted, so the app shell works offline.
+function precacheManifest(): Plugin {
+    let outDir = 'dist';
+    let emitted: string[] = [];
     return {
-      base: '/audio-flashcard-image-generator/', // tên repo của bạn
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      name: 'precache-manifest',
+      apply: 'build',
+      configResolved(config) {
+        outDir = path.resolve(config.root, config.build.outDir);
+      },
+      generateBundle(_options, bundle) {
+        emitted = Object.keys(bundle).filter(file => !file.endsWith('.map'));
       },
+      writeBundle() {
+        const workerPath = path.join(outDir, 'sw.js');
+        const files = [...emitted, 'manifest.webmanifest', 'icon.svg'].sort();
+        const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+        const source = fs.readFileSync(workerPath, 'utf8')
+          .replace(/const PRECACHE = .*;/, `const PRECACHE = ${JSON.stringify({ version, files })};`);
+        fs.writeFileSync(workerPath, source);
+      },
+    };
+}
+
+// API keys are never inlined into the bundle; Gemini goes through `server/` or
+// a key the user enters in Settings.
+export default defineConfig(() => {
+    return {
+      base: '/audio-flashcard-image-generator/', // tên repo của bạn
+      plugins: [precacheManifest()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),